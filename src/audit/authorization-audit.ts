@@ -0,0 +1,209 @@
+/**
+ * Authorization Audit Log
+ *
+ * Records every allow/deny decision taken by the auth guards as a
+ * structured event, for compliance reporting.
+ *
+ * Key Features:
+ * - One event per guard decision (user, tenant, route, scopes, reason)
+ * - Request ID shared with TraceContextInterceptor
+ * - Pluggable sinks: logger, JSON-lines file, in-memory (tests)
+ * - PII masked with UtilsHelper.mask before any sink sees the event
+ * - Sink failures are logged, never break the request
+ */
+
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { Request } from 'express';
+import { appendFile } from 'fs/promises';
+import { getGrantedScopes } from '../helpers/scope-resolver';
+import { ensureTraceData } from '../interceptors/trace-context.interceptor';
+import { UtilsHelper } from '../utils/utils.helper';
+
+export type AuthorizationDecision = 'allow' | 'deny';
+
+/**
+ * Structured audit event
+ */
+export interface AuthorizationAuditEvent {
+  readonly timestamp: string;
+  readonly requestId?: string;
+  readonly userId?: string;
+  readonly tenantId?: string;
+  /** Method and route pattern, e.g. 'PATCH /orders/:id' */
+  readonly route: string;
+  /** Guard that took the decision */
+  readonly guard: string;
+  readonly decision: AuthorizationDecision;
+  readonly reason?: string;
+  readonly requiredScopes: readonly string[];
+  readonly grantedScopes: readonly string[];
+  /** Guard-specific details (strategy, policy, environment...) */
+  readonly details?: Record<string, unknown>;
+}
+
+/**
+ * Decision reported by a guard; request-derived fields are filled in
+ */
+export interface AuthorizationAuditInput {
+  readonly guard: string;
+  readonly decision: AuthorizationDecision;
+  readonly reason?: string;
+  readonly requiredScopes?: readonly string[];
+  readonly details?: Record<string, unknown>;
+}
+
+/**
+ * Destination for audit events
+ */
+export interface AuditSink {
+  write(event: AuthorizationAuditEvent): void | Promise<void>;
+}
+
+/**
+ * Writes events to the Nest logger; denials as warnings
+ */
+export class LoggerAuditSink implements AuditSink {
+  constructor(private readonly logger = new Logger('AuthorizationAudit')) {}
+
+  write(event: AuthorizationAuditEvent): void {
+    const line = JSON.stringify(event);
+    event.decision === 'deny' ? this.logger.warn(line) : this.logger.log(line);
+  }
+}
+
+/**
+ * Appends events to a file, one JSON document per line
+ */
+export class FileAuditSink implements AuditSink {
+  constructor(private readonly path: string) {}
+
+  async write(event: AuthorizationAuditEvent): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify(event)}\n`, 'utf8');
+  }
+}
+
+/**
+ * Keeps events in memory, for tests
+ *
+ * @example
+ * const sink = new InMemoryAuditSink();
+ * authorizationAudit.addSink(sink);
+ * await request(app.getHttpServer()).get('/admin').expect(403);
+ * expect(sink.find({ decision: 'deny', guard: 'ScopesGuard' })).toHaveLength(1);
+ */
+export class InMemoryAuditSink implements AuditSink {
+  readonly events: AuthorizationAuditEvent[] = [];
+
+  write(event: AuthorizationAuditEvent): void {
+    this.events.push(event);
+  }
+
+  find(match: Partial<AuthorizationAuditEvent>): AuthorizationAuditEvent[] {
+    return this.events.filter((event) =>
+      Object.entries(match).every(
+        ([key, value]) => event[key as keyof AuthorizationAuditEvent] === value,
+      ),
+    );
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+/**
+ * Injection token for the sinks of the DI-provided auditor
+ */
+export const AUDIT_SINKS = 'audit:sinks';
+
+interface AuditedUser {
+  id?: string;
+  sub?: string;
+  tenantId?: string;
+  roles?: string[];
+  [claim: string]: unknown;
+}
+
+interface AuditedRequest extends Request {
+  context?: { user?: AuditedUser; tenant?: { id: string } };
+  user?: AuditedUser;
+}
+
+/**
+ * Authorization auditor, used by StrategyAuthGuard, ScopesGuard, TenantGuard,
+ * PolicyGuard and EnvironmentGuard
+ *
+ * @example
+ * // Process-wide
+ * authorizationAudit.addSink(new FileAuditSink('/var/log/app/authz.log'));
+ *
+ * @example
+ * // Or through DI, in app.module.ts
+ * providers: [
+ *   { provide: AUDIT_SINKS, useValue: [new LoggerAuditSink()] },
+ *   AuthorizationAuditor,
+ * ]
+ */
+@Injectable()
+export class AuthorizationAuditor {
+  private readonly logger = new Logger(AuthorizationAuditor.name);
+  private readonly masker = new UtilsHelper();
+  private readonly sinks: AuditSink[];
+
+  constructor(@Optional() @Inject(AUDIT_SINKS) sinks: AuditSink[] = []) {
+    this.sinks = [...sinks];
+  }
+
+  addSink(sink: AuditSink): this {
+    this.sinks.push(sink);
+    return this;
+  }
+
+  get enabled(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  /**
+   * Record a guard decision for the current request
+   */
+  async record(request: Request, input: AuthorizationAuditInput): Promise<void> {
+    if (!this.enabled) return;
+
+    const { context, user: passportUser, method, path } = request as AuditedRequest;
+    const user = context?.user ?? passportUser;
+
+    const event: AuthorizationAuditEvent = {
+      timestamp: new Date().toISOString(),
+      requestId: ensureTraceData(request).requestId,
+      userId: user?.id ?? user?.sub,
+      tenantId: context?.tenant?.id ?? user?.tenantId,
+      route: `${method} ${(request.route as { path?: string } | undefined)?.path ?? path}`,
+      guard: input.guard,
+      decision: input.decision,
+      reason: input.reason,
+      requiredScopes: input.requiredScopes ?? [],
+      grantedScopes: user ? getGrantedScopes(user) : [],
+      details: input.details,
+    };
+
+    await this.write(this.masker.mask(event) as AuthorizationAuditEvent);
+  }
+
+  private async write(event: AuthorizationAuditEvent): Promise<void> {
+    await Promise.all(
+      this.sinks.map(async (sink) => {
+        try {
+          await sink.write(event);
+        } catch (err) {
+          this.logger.error(`Audit sink ${sink.constructor.name} failed`, (err as Error)?.stack);
+        }
+      }),
+    );
+  }
+}
+
+/**
+ * Process-wide auditor, used by guards when none is provided through DI
+ * Records nothing until a sink is added
+ */
+export const authorizationAudit = new AuthorizationAuditor();
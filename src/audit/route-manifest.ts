@@ -0,0 +1,225 @@
+/**
+ * Route Permission Manifest
+ *
+ * Scans the Nest module graph and lists every route with its access
+ * control metadata, for review and CI checks.
+ *
+ * Key Features:
+ * - Method, path, auth requirement, strategies, scopes, policies, environments
+ * - JSON (serializable object) and Markdown output
+ * - Flags routes with neither @Auth() nor @Public()
+ * - assertNoUnprotectedRoutes() to fail CI on new unprotected routes
+ */
+
+import { CanActivate, INestApplicationContext, RequestMethod, Type } from '@nestjs/common';
+import { GUARDS_METADATA, METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { MetadataScanner, ModulesContainer, Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY, SCOPES_KEY } from '../decorators/composite-auth.decorator';
+import {
+  ALLOWED_ENVIRONMENTS_KEY,
+  BLOCKED_ENVIRONMENTS_KEY,
+  TEST_ONLY_KEY,
+} from '../guards/environment.guard';
+import { POLICIES_KEY, PolicyDefinition } from '../guards/policy.guard';
+import { SCOPES_MODE_KEY, ScopesMode } from '../guards/scopes.guard';
+import { AUTH_STRATEGIES_KEY, AuthStrategyConfig } from '../guards/strategy-auth.guard';
+import { TENANT_SCOPED_KEY } from '../guards/tenant.guard';
+
+/**
+ * How a route is protected
+ * - authenticated: @Auth() on the handler or controller (or a global auth guard)
+ * - public: explicitly @Public()
+ * - none: no auth decorator at all
+ */
+export type RouteAuthRequirement = 'authenticated' | 'public' | 'none';
+
+export interface RouteManifestEntry {
+  readonly controller: string;
+  readonly handler: string;
+  readonly method: string;
+  readonly path: string;
+  readonly auth: RouteAuthRequirement;
+  readonly strategies: string[];
+  readonly scopes: string[];
+  readonly scopesMode: ScopesMode;
+  readonly policies: string[];
+  readonly tenantScoped: boolean;
+  readonly testOnly: boolean;
+  readonly allowedEnvironments: string[];
+  readonly blockedEnvironments: string[];
+  /** Guards applied with @UseGuards() on the controller or handler */
+  readonly guards: string[];
+}
+
+export interface RouteManifest {
+  readonly generatedAt: string;
+  readonly routes: RouteManifestEntry[];
+  /** Routes with neither @Auth() nor @Public() */
+  readonly unprotected: RouteManifestEntry[];
+}
+
+export interface RouteManifestOptions {
+  /** Global prefix set with app.setGlobalPrefix() */
+  globalPrefix?: string;
+  /** Set when an auth guard is registered as APP_GUARD: undecorated routes are authenticated */
+  globalAuthGuard?: boolean;
+}
+
+/**
+ * Thrown by assertNoUnprotectedRoutes()
+ */
+export class UnprotectedRoutesError extends Error {
+  constructor(public readonly routes: RouteManifestEntry[]) {
+    super(
+      `${routes.length} route(s) have neither @Auth() nor @Public(): ` +
+        routes.map((route) => `${route.method} ${route.path}`).join(', '),
+    );
+    this.name = 'UnprotectedRoutesError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+// Join path segments into a single normalized route path
+function joinPaths(...segments: (string | undefined)[]): string {
+  const path = segments
+    .filter(Boolean)
+    .map((segment) => (segment as string).replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+  return `/${path}`;
+}
+
+const toArray = (value: string | string[] | undefined): (string | undefined)[] =>
+  Array.isArray(value) ? value : [value];
+
+/**
+ * Build the manifest from a created (not necessarily listening) application
+ *
+ * @example
+ * // scripts/route-manifest.ts
+ * const app = await NestFactory.create(AppModule, { logger: false });
+ * const manifest = buildRouteManifest(app, { globalPrefix: 'api' });
+ *
+ * writeFileSync('route-manifest.json', JSON.stringify(manifest, null, 2));
+ * writeFileSync('route-manifest.md', routeManifestToMarkdown(manifest));
+ * assertNoUnprotectedRoutes(manifest); // non-zero exit in CI
+ */
+export function buildRouteManifest(
+  app: INestApplicationContext,
+  options: RouteManifestOptions = {},
+): RouteManifest {
+  const reflector = new Reflector();
+  const scanner = new MetadataScanner();
+  const routes: RouteManifestEntry[] = [];
+
+  for (const module of app.get(ModulesContainer).values()) {
+    for (const wrapper of module.controllers.values()) {
+      const controller = wrapper.metatype as (new (...args: unknown[]) => unknown) | null;
+      if (!controller) continue;
+
+      const controllerPaths = toArray(Reflect.getMetadata(PATH_METADATA, controller));
+
+      for (const name of scanner.getAllMethodNames(controller.prototype)) {
+        const handler = controller.prototype[name] as (...args: unknown[]) => unknown;
+        const handlerPath: string | string[] | undefined = Reflect.getMetadata(PATH_METADATA, handler);
+        if (handlerPath === undefined) continue;
+
+        const targets = [handler, controller];
+        const get = <T>(key: string) => reflector.getAllAndOverride<T | undefined>(key, targets);
+
+        // @Auth() sets both keys
+        const strategies = get<AuthStrategyConfig[]>(AUTH_STRATEGIES_KEY);
+        const scopes = get<string[]>(SCOPES_KEY);
+        const isPublic = get<boolean>(IS_PUBLIC_KEY) ?? false;
+        const hasAuth = !!strategies || !!scopes;
+
+        const entry = {
+          controller: controller.name,
+          handler: name,
+          method: RequestMethod[Reflect.getMetadata(METHOD_METADATA, handler) as RequestMethod],
+          auth: (isPublic
+            ? 'public'
+            : hasAuth || options.globalAuthGuard
+              ? 'authenticated'
+              : 'none') as RouteAuthRequirement,
+          strategies: (strategies ?? []).map(({ strategy }) => strategy),
+          scopes: scopes ?? [],
+          scopesMode: get<ScopesMode>(SCOPES_MODE_KEY) ?? 'any',
+          policies: reflector
+            .getAllAndMerge<PolicyDefinition[]>(POLICIES_KEY, [controller, handler])
+            .map((policy) => policy.name),
+          tenantScoped: get<object>(TENANT_SCOPED_KEY) !== undefined,
+          testOnly: get<boolean>(TEST_ONLY_KEY) ?? false,
+          // EnvironmentGuard reads these from the handler only
+          allowedEnvironments: reflector.get<string[] | undefined>(ALLOWED_ENVIRONMENTS_KEY, handler) ?? [],
+          blockedEnvironments: reflector.get<string[] | undefined>(BLOCKED_ENVIRONMENTS_KEY, handler) ?? [],
+          guards: reflector
+            .getAllAndMerge<(Type<CanActivate> | CanActivate)[]>(GUARDS_METADATA, [controller, handler])
+            .map((guard) => (typeof guard === 'function' ? guard.name : guard.constructor.name)),
+        };
+
+        for (const controllerPath of controllerPaths) {
+          for (const path of toArray(handlerPath)) {
+            routes.push({ ...entry, path: joinPaths(options.globalPrefix, controllerPath, path) });
+          }
+        }
+      }
+    }
+  }
+
+  routes.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    routes,
+    unprotected: routes.filter((route) => route.auth === 'none'),
+  };
+}
+
+/**
+ * Render the manifest as a Markdown table, unprotected routes flagged
+ */
+export function routeManifestToMarkdown(manifest: RouteManifest): string {
+  const cell = (values: string[]) => (values.length ? values.join(', ') : '-');
+  const environments = (route: RouteManifestEntry) =>
+    cell([
+      ...(route.testOnly ? ['test only'] : []),
+      ...route.allowedEnvironments.map((env) => `only ${env}`),
+      ...route.blockedEnvironments.map((env) => `not ${env}`),
+    ]);
+
+  const lines = [
+    '# Route Permission Manifest',
+    '',
+    `Generated ${manifest.generatedAt}: ${manifest.routes.length} routes, ` +
+      `${manifest.unprotected.length} unprotected.`,
+    '',
+    '| Method | Path | Auth | Strategies | Scopes | Policies | Tenant | Environments | Handler |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...manifest.routes.map((route) =>
+      [
+        route.method,
+        `\`${route.path}\``,
+        route.auth === 'none' ? '**NONE**' : route.auth,
+        cell(route.strategies),
+        cell(route.scopes.map((scope) => `\`${scope}\``)) +
+          (route.scopes.length > 1 ? ` (${route.scopesMode})` : ''),
+        cell(route.policies),
+        route.tenantScoped ? 'yes' : '-',
+        environments(route),
+        `${route.controller}.${route.handler}`,
+      ].join(' | '),
+    ).map((row) => `| ${row} |`),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Throw when any route has neither @Auth() nor @Public()
+ */
+export function assertNoUnprotectedRoutes(manifest: RouteManifest): void {
+  if (manifest.unprotected.length) {
+    throw new UnprotectedRoutesError(manifest.unprotected);
+  }
+}
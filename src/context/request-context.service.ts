@@ -9,11 +9,15 @@
  * - Type-safe context accessors
  * - Supports multiple context types (user, tenant, trace, etc.)
  * - Clean getter/setter pattern
+ * - Role checks through the shared ScopeResolver hierarchy
  */
 
-import { Injectable, Inject, Scope } from '@nestjs/common';
+import { Injectable, Inject, Optional, Scope } from '@nestjs/common';
 import { REQUEST } from '@nestjs/core';
 import { Request } from 'express';
+import { errorMessages } from '../error-handling/error-messages';
+import { ScopeResolver, scopeResolver } from '../helpers/scope-resolver';
+import { AuthStrategy } from '../guards/strategy-auth.guard';
 
 /**
  * User context containing authenticated user information
@@ -55,6 +59,8 @@ interface RequestContext {
   user?: UserContext;
   tenant?: TenantContext;
   trace?: TraceContext;
+  locale?: string;
+  authStrategy?: AuthStrategy;
   custom?: Record<string, unknown>;
 }
 
@@ -65,6 +71,17 @@ interface ContextRequest extends Request {
   context?: RequestContext;
 }
 
+/**
+ * Resolve the request locale: explicit context locale, then Accept-Language,
+ * then the error catalog's fallback (English)
+ */
+export function resolveRequestLocale(request: Request): string {
+  return (
+    (request as ContextRequest).context?.locale ??
+    errorMessages.resolveLocale(request.headers['accept-language'])
+  );
+}
+
 /**
  * Request-scoped context service
  *
@@ -99,7 +116,10 @@ interface ContextRequest extends Request {
 export class RequestContextService {
   private readonly context: RequestContext;
 
-  constructor(@Inject(REQUEST) private readonly request: ContextRequest) {
+  constructor(
+    @Inject(REQUEST) private readonly request: ContextRequest,
+    @Optional() private readonly resolver: ScopeResolver = scopeResolver,
+  ) {
     // Initialize context on request if not exists
     if (!this.request.context) {
       this.request.context = {};
@@ -134,6 +154,24 @@ export class RequestContextService {
     this.context.trace = traceContext;
   }
 
+  // Locale (e.g. from a user preference), defaults to Accept-Language
+  get locale(): string {
+    return resolveRequestLocale(this.request);
+  }
+
+  set locale(locale: string | undefined) {
+    this.context.locale = locale;
+  }
+
+  // Strategy that authenticated the request (jwt, api-key, service-jwt)
+  get authStrategy(): AuthStrategy | undefined {
+    return this.context.authStrategy;
+  }
+
+  set authStrategy(strategy: AuthStrategy | undefined) {
+    this.context.authStrategy = strategy;
+  }
+
   // Custom data storage
   getCustom<T>(key: string): T | undefined {
     return this.context.custom?.[key] as T | undefined;
@@ -155,15 +193,16 @@ export class RequestContextService {
     return this.context.trace?.requestId;
   }
 
+  // Role checks expand the hierarchy: an admin also has the 'user' role
   hasRole(role: string): boolean {
-    return this.context.user?.roles.includes(role) ?? false;
+    return this.hasAnyRole(role);
   }
 
   hasAnyRole(...roles: string[]): boolean {
-    return roles.some((role) => this.hasRole(role));
+    return this.resolver.hasAny(this.context.user?.roles ?? [], roles);
   }
 
   hasAllRoles(...roles: string[]): boolean {
-    return roles.every((role) => this.hasRole(role));
+    return this.resolver.hasAll(this.context.user?.roles ?? [], roles);
   }
 }
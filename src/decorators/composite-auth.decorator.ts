@@ -5,17 +5,33 @@
  * Demonstrates the decorator composition pattern for clean, DRY authentication.
  *
  * Key Features:
- * - Combines SetMetadata, UseGuards, and ApiBearerAuth in one decorator
- * - Supports scope-based authorization
+ * - Combines SetMetadata, UseGuards, and Swagger security in one decorator
+ * - Supports scope-based authorization, enforced by ScopesGuard
+ * - JWT, API key and service JWT strategies with per-strategy scopes
+ * - Tenant isolation via @TenantScoped(), enforced by TenantGuard
+ * - Resource-level policies via @Policy(), enforced by PolicyGuard
  * - Reduces boilerplate in controllers
  * - Type-safe scope definitions
  */
 
 import { SetMetadata, applyDecorators, UseGuards } from '@nestjs/common';
-import { ApiBearerAuth, ApiUnauthorizedResponse, ApiForbiddenResponse } from '@nestjs/swagger';
-
-// Example auth guard (would be imported from your auth module)
-import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiSecurity,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  DocumentBuilder,
+} from '@nestjs/swagger';
+import {
+  AUTH_STRATEGIES_KEY,
+  AuthStrategy,
+  AuthStrategyConfig,
+  DEFAULT_AUTH_STRATEGIES,
+  StrategyAuthGuard,
+} from '../guards/strategy-auth.guard';
+import { ScopesGuard, ScopesMode } from '../guards/scopes.guard';
+import { TenantGuard } from '../guards/tenant.guard';
+import { POLICIES_KEY, PolicyDefinition, PolicyGuard } from '../guards/policy.guard';
+import { Permission } from '../helpers/scope-resolver';
 
 /**
  * Define your application's authorization scopes
@@ -29,11 +45,36 @@ export const AuthScopes = {
 
 export type AuthScope = (typeof AuthScopes)[keyof typeof AuthScopes];
 
+/**
+ * Anything @Auth() can require: a role scope or a fine-grained permission
+ */
+export type AuthRequirement = AuthScope | Permission;
+
 /**
  * Metadata key for storing scopes
  */
 export const SCOPES_KEY = 'auth:scopes';
 
+/**
+ * Swagger security scheme name per strategy
+ */
+export const AUTH_SECURITY_SCHEMES: Record<AuthStrategy, string> = {
+  jwt: 'bearer',
+  'api-key': 'api-key',
+  'service-jwt': 'service-jwt',
+};
+
+/**
+ * Options form of @Auth()
+ */
+export interface AuthOptions {
+  /** Allowed strategies, tried in order; defaults to JWT only */
+  strategies?: (AuthStrategy | AuthStrategyConfig)[];
+  /** Scopes required from strategies that don't declare their own */
+  scopes?: AuthRequirement[];
+  scopesMode?: ScopesMode;
+}
+
 /**
  * Composite authentication decorator
  *
@@ -50,24 +91,112 @@ export const SCOPES_KEY = 'auth:scopes';
  * getManagementData() { ... }
  *
  * @example
+ * // Require all of multiple scopes
+ * @Auth(AuthScopes.manager, AuthScopes.readonly)
+ * @ScopesMode('all')
+ * @Get('reports')
+ * getReports() { ... }
+ *
+ * @example
+ * // Fine-grained permission; satisfied by 'orders:write' or 'orders:*'
+ * @Auth('orders:write')
+ * @Patch('orders/:id')
+ * updateOrder() { ... }
+ *
+ * @example
+ * // Users with a JWT, partners with an API key, batch jobs with a service token
+ * @Auth({
+ *   strategies: [
+ *     'jwt',
+ *     { strategy: 'api-key', scopes: ['orders:read'] },
+ *     { strategy: 'service-jwt', scopes: ['orders:*'] },
+ *   ],
+ *   scopes: [AuthScopes.user],
+ * })
+ * @Get('orders')
+ * listOrders() { ... }
+ *
+ * @example
  * // Just require authentication (no specific scope)
  * @Auth()
  * @Get('protected')
  * getProtectedData() { ... }
  */
-export function Auth(...scopes: AuthScope[]) {
+export function Auth(options: AuthOptions): MethodDecorator & ClassDecorator;
+export function Auth(...scopes: AuthRequirement[]): MethodDecorator & ClassDecorator;
+export function Auth(...args: [AuthOptions] | AuthRequirement[]) {
+  const options: AuthOptions =
+    typeof args[0] === 'object' ? args[0] : { scopes: args as AuthRequirement[] };
+  const scopes = options.scopes ?? [];
+  const strategies: AuthStrategyConfig[] = options.strategies?.length
+    ? options.strategies.map((entry) => (typeof entry === 'string' ? { strategy: entry } : entry))
+    : [...DEFAULT_AUTH_STRATEGIES];
+
   return applyDecorators(
+    // Explicit on the target, so @Auth() on a handler overrides @Public() on its controller
+    SetMetadata(IS_PUBLIC_KEY, false),
     SetMetadata(SCOPES_KEY, scopes),
-    UseGuards(AuthGuard('jwt')),
-    ApiBearerAuth(),
-    ApiUnauthorizedResponse({ description: 'Unauthorized - Invalid or missing token' }),
+    SetMetadata(AUTH_STRATEGIES_KEY, strategies),
+    ...(options.scopesMode ? [ScopesMode(options.scopesMode)] : []),
+    // PolicyGuard runs last so policies see the authenticated user and tenant
+    UseGuards(StrategyAuthGuard, ScopesGuard, TenantGuard, PolicyGuard),
+    // One security requirement per strategy; OpenAPI treats them as alternatives
+    ...strategies.map(({ strategy, scopes: strategyScopes }) =>
+      ApiSecurity(AUTH_SECURITY_SCHEMES[strategy], [...(strategyScopes ?? scopes)]),
+    ),
+    ApiUnauthorizedResponse({ description: 'Unauthorized - Invalid or missing credentials' }),
     ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' }),
   );
 }
 
+/**
+ * Register the security schemes referenced by @Auth() on a Swagger document
+ *
+ * @example
+ * const config = addAuthSecuritySchemes(new DocumentBuilder().setTitle('API')).build();
+ */
+export function addAuthSecuritySchemes(
+  builder: DocumentBuilder,
+  apiKeyHeader = 'x-api-key',
+): DocumentBuilder {
+  return builder
+    .addBearerAuth(
+      { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      AUTH_SECURITY_SCHEMES.jwt,
+    )
+    .addApiKey({ type: 'apiKey', in: 'header', name: apiKeyHeader }, AUTH_SECURITY_SCHEMES['api-key'])
+    .addBearerAuth(
+      {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'Signed service-to-service token',
+      },
+      AUTH_SECURITY_SCHEMES['service-jwt'],
+    );
+}
+
+/**
+ * Resource-level policy decorator, evaluated by PolicyGuard after @Auth()
+ * authentication and scope checks. Denials respond 403 PolicyDeniedError.
+ *
+ * @example
+ * @Auth(AuthScopes.user)
+ * @Policy(orderOwnerOrManager)
+ * @Patch('orders/:id')
+ * updateOrder(@Param('id') id: string, @Body() dto: UpdateOrderDto) { ... }
+ */
+export function Policy<R extends unknown[]>(...policies: { [K in keyof R]: PolicyDefinition<R[K]> }) {
+  return applyDecorators(
+    SetMetadata(POLICIES_KEY, policies),
+    ApiForbiddenResponse({ description: 'Forbidden - Denied by resource policy' }),
+  );
+}
+
 /**
  * Decorator for public endpoints that don't require authentication
- * Useful for explicitly marking public routes
+ * Useful for explicitly marking public routes; on a controller, handlers
+ * with their own @Auth() stay protected
  */
 export const IS_PUBLIC_KEY = 'auth:isPublic';
 
@@ -76,11 +205,6 @@ export function Public() {
 }
 
 /**
- * Decorator for test-only endpoints
- * These endpoints are disabled in production environments
+ * Decorator for test-only endpoints, enforced by EnvironmentGuard
  */
-export const TEST_ONLY_KEY = 'auth:testOnly';
-
-export function TestOnly() {
-  return SetMetadata(TEST_ONLY_KEY, true);
-}
+export { TestOnly, TEST_ONLY_KEY } from '../guards/environment.guard';
@@ -9,6 +9,7 @@
  * - Custom constraint implementation
  * - Proper TypeScript typing
  * - Reusable validation patterns
+ * - Default messages from the localized error catalog
  */
 
 import {
@@ -18,6 +19,31 @@ import {
   ValidatorConstraint,
   registerDecorator,
 } from 'class-validator';
+import { errorMessages } from '../error-handling/error-messages';
+
+/**
+ * Context attached to default-message constraints so validation errors can
+ * be re-rendered in the client's language (see ValidationFailedError)
+ */
+export interface ValidationMessageContext {
+  readonly messageCode: string;
+  readonly messageParams: Record<string, unknown>;
+}
+
+function withMessageContext(
+  validationOptions: ValidationOptions | undefined,
+  context: ValidationMessageContext,
+): ValidationOptions | undefined {
+  // A custom message opts out of catalog translation
+  if (validationOptions?.message !== undefined) {
+    return validationOptions;
+  }
+  return { ...validationOptions, context: { ...validationOptions?.context, ...context } };
+}
+
+function defaultMessage(code: string, params: Record<string, unknown>): string {
+  return errorMessages.translate(code, undefined, params) ?? code;
+}
 
 /**
  * Validates that a string property is longer than another property
@@ -36,7 +62,10 @@ export function IsLongerThan(property: string, validationOptions?: ValidationOpt
     registerDecorator({
       target: object.constructor,
       propertyName,
-      options: validationOptions,
+      options: withMessageContext(validationOptions, {
+        messageCode: 'IS_LONGER_THAN',
+        messageParams: { property: propertyName, relatedProperty: property },
+      }),
       constraints: [property],
       validator: IsLongerThanConstraint,
     });
@@ -58,7 +87,10 @@ export class IsLongerThanConstraint implements ValidatorConstraintInterface {
 
   defaultMessage(args: ValidationArguments): string {
     const [relatedPropertyName] = args.constraints as [string];
-    return `${args.property} must be longer than ${relatedPropertyName}`;
+    return defaultMessage('IS_LONGER_THAN', {
+      property: args.property,
+      relatedProperty: relatedPropertyName,
+    });
   }
 }
 
@@ -80,7 +112,10 @@ export function Match(property: string, validationOptions?: ValidationOptions) {
     registerDecorator({
       target: object.constructor,
       propertyName,
-      options: validationOptions,
+      options: withMessageContext(validationOptions, {
+        messageCode: 'MATCH',
+        messageParams: { property: propertyName, relatedProperty: property },
+      }),
       constraints: [property],
       validator: MatchConstraint,
     });
@@ -97,7 +132,7 @@ export class MatchConstraint implements ValidatorConstraintInterface {
 
   defaultMessage(args: ValidationArguments): string {
     const [relatedPropertyName] = args.constraints as [string];
-    return `${args.property} must match ${relatedPropertyName}`;
+    return defaultMessage('MATCH', { property: args.property, relatedProperty: relatedPropertyName });
   }
 }
 
@@ -118,7 +153,10 @@ export function IsAfter(property: string, validationOptions?: ValidationOptions)
     registerDecorator({
       target: object.constructor,
       propertyName,
-      options: validationOptions,
+      options: withMessageContext(validationOptions, {
+        messageCode: 'IS_AFTER',
+        messageParams: { property: propertyName, relatedProperty: property },
+      }),
       constraints: [property],
       validator: IsAfterConstraint,
     });
@@ -140,7 +178,7 @@ export class IsAfterConstraint implements ValidatorConstraintInterface {
 
   defaultMessage(args: ValidationArguments): string {
     const [relatedPropertyName] = args.constraints as [string];
-    return `${args.property} must be after ${relatedPropertyName}`;
+    return defaultMessage('IS_AFTER', { property: args.property, relatedProperty: relatedPropertyName });
   }
 }
 
@@ -168,7 +206,10 @@ export function RequireOneOf(properties: string[], validationOptions?: Validatio
     registerDecorator({
       target: object.constructor,
       propertyName,
-      options: validationOptions,
+      options: withMessageContext(validationOptions, {
+        messageCode: 'REQUIRE_ONE_OF',
+        messageParams: { properties: properties.join(', ') },
+      }),
       constraints: [properties],
       validator: RequireOneOfConstraint,
     });
@@ -189,6 +230,6 @@ export class RequireOneOfConstraint implements ValidatorConstraintInterface {
 
   defaultMessage(args: ValidationArguments): string {
     const [properties] = args.constraints as [string[]];
-    return `At least one of [${properties.join(', ')}] must be provided`;
+    return defaultMessage('REQUIRE_ONE_OF', { properties: properties.join(', ') });
   }
 }
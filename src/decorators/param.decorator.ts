@@ -93,6 +93,8 @@ export const RequireUser = createParamDecorator<string | undefined, ExecutionCon
 
 /**
  * Get the current tenant ID
+ * The raw x-tenant-id header is not trusted; @TenantScoped() routes get it
+ * validated against the token by TenantGuard
  *
  * @example
  * @Get('tenant-data')
@@ -101,17 +103,17 @@ export const RequireUser = createParamDecorator<string | undefined, ExecutionCon
  * }
  */
 export const GetTenantId = createParamDecorator<void, ExecutionContext, string | undefined>(
-  (_data: void, ctx: ExecutionContext) => {
-    const request = ctx.switchToHttp().getRequest<ContextRequest>();
-
-    return (
-      request.context?.tenant?.id ??
-      request.context?.user?.tenantId ??
-      (request.headers['x-tenant-id'] as string)
-    );
-  },
+  (_data: void, ctx: ExecutionContext) => resolveTenantId(ctx.switchToHttp().getRequest<Request>()),
 );
 
+/**
+ * Tenant ID resolution used by @GetTenantId()
+ */
+export function resolveTenantId(request: Request): string | undefined {
+  const { context } = request as ContextRequest;
+  return context?.tenant?.id ?? context?.user?.tenantId;
+}
+
 /**
  * Get request trace ID
  *
@@ -144,19 +146,22 @@ export const GetTraceId = createParamDecorator<void, ExecutionContext, string |
  * }
  */
 export const GetClientIp = createParamDecorator<void, ExecutionContext, string | undefined>(
-  (_data: void, ctx: ExecutionContext) => {
-    const request = ctx.switchToHttp().getRequest<Request>();
-
-    const forwarded = request.headers['x-forwarded-for'];
-    if (forwarded) {
-      const ips = Array.isArray(forwarded) ? forwarded[0] : forwarded;
-      return ips.split(',')[0]?.trim();
-    }
-
-    return request.ip ?? request.socket.remoteAddress;
-  },
+  (_data: void, ctx: ExecutionContext) => resolveClientIp(ctx.switchToHttp().getRequest<Request>()),
 );
 
+/**
+ * Client IP resolution used by @GetClientIp()
+ */
+export function resolveClientIp(request: Request): string | undefined {
+  const forwarded = request.headers['x-forwarded-for'];
+  if (forwarded) {
+    const ips = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+    return ips.split(',')[0]?.trim();
+  }
+
+  return request.ip ?? request.socket.remoteAddress;
+}
+
 /**
  * Get user agent string
  *
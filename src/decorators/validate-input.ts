@@ -9,27 +9,71 @@
  * - Explicit types throughout - no `any`
  * - Function name preserved for debugging
  * - Async validation support with proper error extraction
+ * - Constraint messages re-rendered per locale from the error catalog
  */
 
 import { SetMetadata } from '@nestjs/common';
 import { validate, ValidationError } from 'class-validator';
 import { plainToInstance, ClassConstructor } from 'class-transformer';
+import { errorMessages } from '../error-handling/error-messages';
+import { isObject } from '../utils/utils.helper';
 
-interface ValidationErrorDetail {
+export interface ValidationErrorDetail {
   constraints?: Record<string, string>;
+  contexts?: Record<string, unknown>;
   value?: unknown;
   children?: Record<string, ValidationErrorDetail>;
 }
 
+function localizeDetails(
+  details: Record<string, ValidationErrorDetail>,
+  locale: string,
+): Record<string, ValidationErrorDetail> {
+  const result: Record<string, ValidationErrorDetail> = {};
+
+  for (const [property, detail] of Object.entries(details)) {
+    const constraints = detail.constraints && { ...detail.constraints };
+
+    for (const [constraint, context] of Object.entries(detail.contexts ?? {})) {
+      // Only default messages carry a catalog code (see ValidationMessageContext)
+      if (constraints?.[constraint] && isObject(context) && typeof context.messageCode === 'string') {
+        const params = isObject(context.messageParams) ? context.messageParams : {};
+        constraints[constraint] =
+          errorMessages.translate(context.messageCode, locale, params) ?? constraints[constraint];
+      }
+    }
+
+    result[property] = {
+      ...(constraints && { constraints }),
+      ...(detail.value !== undefined && { value: detail.value }),
+      ...(detail.children && { children: localizeDetails(detail.children, locale) }),
+    };
+  }
+
+  return result;
+}
+
 export class ValidationFailedError extends Error {
+  readonly code = 'VALIDATION_FAILED';
+
   constructor(public readonly details: Record<string, ValidationErrorDetail>) {
-    super(`Validation failed: ${JSON.stringify(details)}`);
+    super(`${errorMessages.translate('VALIDATION_FAILED')}: ${JSON.stringify(details)}`);
     this.name = 'ValidationFailedError';
     Error.captureStackTrace(this, ValidationFailedError);
   }
+
+  /**
+   * Details with default constraint messages rendered in the given locale
+   */
+  localizedDetails(locale: string): Record<string, ValidationErrorDetail> {
+    return localizeDetails(this.details, locale);
+  }
 }
 
-function extractConstraints(
+/**
+ * Flatten class-validator errors into per-property details
+ */
+export function extractConstraints(
   errors: ValidationError[],
 ): Record<string, ValidationErrorDetail> | null {
   if (!errors.length) return null;
@@ -45,6 +89,7 @@ function extractConstraints(
     } else {
       result[error.property] = {
         constraints: error.constraints,
+        ...(error.contexts && { contexts: error.contexts }),
         value: error.value,
       };
     }
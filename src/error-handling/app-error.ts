@@ -9,26 +9,139 @@
  * - Generic type parameter <T> for type-safe error data
  * - Factory function instead of metaprogramming
  * - Fluent API pattern with method chaining
+ * - Optional catalog registration with stable codes (see error-registry.ts)
+ * - JSON wire format with round-trip to the registered subclass
+ * - ES2022 `Error.cause` chains and aggregate errors
+ * - Retryability and severity classification per class or instance
  */
 
-import { serializeError } from 'serialize-error';
+import { serializeError, deserializeError } from 'serialize-error';
 import deepmerge from 'deepmerge';
+import { ErrorDefinition, RegisteredErrorClass, errorRegistry } from './error-registry';
+import { UtilsHelper, isObject } from '../utils/utils.helper';
 
 export interface ErrorData<T = unknown> {
   message?: string;
   [key: string]: unknown;
 }
 
+/**
+ * Severity levels, mapped to logger levels by GlobalExceptionFilter
+ */
+export type ErrorSeverity = 'debug' | 'info' | 'warning' | 'error' | 'critical';
+
+/**
+ * Classification metadata for retry and logging decisions
+ */
+export interface ErrorClassification {
+  /** Whether retrying the same operation may succeed (default: false) */
+  readonly retryable?: boolean;
+  /** Suggested delay before retrying, in seconds */
+  readonly retryAfter?: number;
+  /** Default: 'error' for 5xx statuses, 'info' otherwise */
+  readonly severity?: ErrorSeverity;
+  /** Whether details may be shown to end users (default: true) */
+  readonly userFacing?: boolean;
+}
+
+/**
+ * Default severity for a status when none is declared
+ */
+export function severityForStatus(status: number): ErrorSeverity {
+  return status >= 500 ? 'error' : 'info';
+}
+
+/**
+ * Wire format of an AppError, shared by services using this library
+ */
+export interface SerializedAppError {
+  readonly name: string;
+  readonly code?: string;
+  readonly status: number;
+  readonly message: string;
+  readonly data?: ErrorData;
+  readonly stack?: string;
+  readonly retryable?: boolean;
+  readonly retryAfter?: number;
+  readonly severity?: ErrorSeverity;
+  readonly userFacing?: boolean;
+  readonly cause?: unknown;
+  /** Child errors of an AggregateAppError */
+  readonly errors?: unknown[];
+  /** @deprecated Legacy field, read as `cause` */
+  readonly innerError?: unknown;
+}
+
+/**
+ * Options for AppError serialization
+ */
+export interface AppErrorSerializeOptions {
+  /** Include stack traces (default: false, stacks leak internals) */
+  includeStack?: boolean;
+  /** Mask sensitive data keys via UtilsHelper.mask (default: true) */
+  redact?: boolean;
+}
+
+const redactor = new UtilsHelper();
+
+function isSerializedAppError(value: unknown): value is SerializedAppError {
+  return (
+    isObject(value) &&
+    typeof value.name === 'string' &&
+    typeof value.message === 'string' &&
+    typeof value.status === 'number'
+  );
+}
+
+/**
+ * Walk an error's `cause` chain, nearest cause first
+ * Stops on cycles and on causes that are not Error instances
+ *
+ * @example
+ * const root = getCauseChain(error).at(-1);
+ */
+export function getCauseChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  const seen = new Set<unknown>([error]);
+  let current = error instanceof Error ? error.cause : undefined;
+
+  while (current !== undefined && !seen.has(current)) {
+    chain.push(current);
+    seen.add(current);
+    current = current instanceof Error ? current.cause : undefined;
+  }
+
+  return chain;
+}
+
+function serializeNested(value: unknown, options: AppErrorSerializeOptions): unknown {
+  if (value === undefined) return undefined;
+  if (value instanceof AppError) return value.serialize(options);
+
+  const serialized = serializeError(value);
+  if (isObject(serialized) && !options.includeStack) {
+    const { stack: _stack, ...rest } = serialized;
+    return rest;
+  }
+  return serialized;
+}
+
+function deserializeNested(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  if (isSerializedAppError(value)) return AppError.fromJSON(value);
+  if (isObject(value) && typeof value.message === 'string') return deserializeError(value);
+  return value;
+}
+
 export class AppError<T extends ErrorData = ErrorData> extends Error {
   private _status: number = 400;
   private _data?: T;
-  private _innerError?: unknown;
+  private _classification: ErrorClassification = {};
 
-  constructor(name: string, data?: T, innerError?: unknown) {
-    super(data?.message ?? '');
+  constructor(name: string, data?: T, cause?: unknown) {
+    super(data?.message ?? '', cause !== undefined ? { cause } : undefined);
     this.name = name;
     this._data = data;
-    this._innerError = innerError;
 
     // Maintains proper stack trace in V8
     Error.captureStackTrace(this, this.constructor);
@@ -42,8 +155,31 @@ export class AppError<T extends ErrorData = ErrorData> extends Error {
     return this._data;
   }
 
+  /** @deprecated Use `cause` */
   get innerError(): unknown {
-    return this._innerError;
+    return this.cause;
+  }
+
+  get retryable(): boolean {
+    return this._classification.retryable ?? false;
+  }
+
+  /** Suggested retry delay in seconds */
+  get retryAfter(): number | undefined {
+    return this._classification.retryAfter;
+  }
+
+  get severity(): ErrorSeverity {
+    return this._classification.severity ?? severityForStatus(this._status);
+  }
+
+  get userFacing(): boolean {
+    return this._classification.userFacing ?? true;
+  }
+
+  /** Stable catalog code, declared by createErrorClass */
+  get code(): string | undefined {
+    return (this.constructor as { code?: string }).code;
   }
 
   setStatus(status: number): this {
@@ -61,31 +197,234 @@ export class AppError<T extends ErrorData = ErrorData> extends Error {
     return this;
   }
 
-  setInnerError(error: unknown): this {
-    this._innerError = serializeError(error);
+  /**
+   * Override classification fields for this instance
+   */
+  classify(classification: ErrorClassification): this {
+    this._classification = { ...this._classification, ...classification };
     return this;
   }
 
+  setRetryable(retryable = true, retryAfter?: number): this {
+    return this.classify({ retryable, ...(retryAfter !== undefined && { retryAfter }) });
+  }
+
+  setSeverity(severity: ErrorSeverity): this {
+    return this.classify({ severity });
+  }
+
+  setUserFacing(userFacing: boolean): this {
+    return this.classify({ userFacing });
+  }
+
+  setCause(cause: unknown): this {
+    this.cause = cause;
+    return this;
+  }
+
+  /** @deprecated Use `setCause`, which keeps the original instance */
+  setInnerError(error: unknown): this {
+    return this.setCause(error);
+  }
+
+  /**
+   * Causes of this error, nearest first
+   */
+  getCauseChain(): unknown[] {
+    return getCauseChain(this);
+  }
+
   raise(): never {
     throw this;
   }
+
+  /**
+   * Serialize to the wire format, redacting sensitive data keys
+   */
+  serialize(options: AppErrorSerializeOptions = {}): SerializedAppError {
+    const { includeStack = false, redact = true } = options;
+    const data = redact ? (redactor.mask(this._data) as ErrorData | undefined) : this._data;
+
+    return {
+      name: this.name,
+      ...(this.code && { code: this.code }),
+      status: this._status,
+      message: this.message,
+      ...(data !== undefined && { data }),
+      ...(includeStack && { stack: this.stack }),
+      retryable: this.retryable,
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+      severity: this.severity,
+      userFacing: this.userFacing,
+      ...(this.cause !== undefined && { cause: serializeNested(this.cause, options) }),
+    };
+  }
+
+  /**
+   * Called by JSON.stringify, uses the default (redacted, stackless) format
+   */
+  toJSON(): SerializedAppError {
+    return this.serialize();
+  }
+
+  /**
+   * Rebuild an error from the wire format
+   * Instantiates the registered subclass when the code is known, so
+   * `instanceof` checks keep working in the calling service
+   *
+   * @example
+   * const error = AppError.fromJSON(await response.json());
+   * if (error instanceof UserNotFoundError) { ... }
+   */
+  static fromJSON<T extends ErrorData = ErrorData>(json: SerializedAppError): AppError<T> {
+    const cause = deserializeNested(json.cause ?? json.innerError);
+    const errorClass = json.code ? errorRegistry.getClass(json.code) : undefined;
+
+    let error: AppError<T>;
+    if (errorClass) {
+      error = new errorClass(json.data, cause) as AppError<T>;
+    } else if (json.errors) {
+      error = new AggregateAppError(json.name, json.errors.map(deserializeNested), json.data as T, cause);
+    } else {
+      error = new AppError(json.name, json.data as T, cause);
+    }
+
+    error.message = json.message;
+    error.setStatus(json.status);
+    error.classify({
+      ...(json.retryable !== undefined && { retryable: json.retryable }),
+      ...(json.retryAfter !== undefined && { retryAfter: json.retryAfter }),
+      ...(json.severity !== undefined && { severity: json.severity }),
+      ...(json.userFacing !== undefined && { userFacing: json.userFacing }),
+    });
+
+    if (json.stack) {
+      error.stack = json.stack;
+    }
+
+    return error;
+  }
+}
+
+/**
+ * Error carrying several child errors, e.g. one per failed item in a batch
+ *
+ * @example
+ * const failures = results.filter((r) => r.error).map((r) => r.error);
+ * if (failures.length) {
+ *   new AggregateAppError('BatchImportFailed', failures, { message: `${failures.length} rows failed` })
+ *     .setStatus(422)
+ *     .raise();
+ * }
+ */
+export class AggregateAppError<T extends ErrorData = ErrorData> extends AppError<T> {
+  private readonly _errors: unknown[];
+
+  constructor(name: string, errors: Iterable<unknown>, data?: T, cause?: unknown) {
+    super(name, data, cause);
+    this._errors = [...errors];
+  }
+
+  get errors(): readonly unknown[] {
+    return this._errors;
+  }
+
+  addError(error: unknown): this {
+    this._errors.push(error);
+    return this;
+  }
+
+  override serialize(options: AppErrorSerializeOptions = {}): SerializedAppError {
+    return {
+      ...super.serialize(options),
+      errors: this._errors.map((error) => serializeNested(error, options)),
+    };
+  }
+}
+
+/**
+ * Interpolate `{key}` placeholders in a message template with error data
+ *
+ * @example
+ * formatErrorMessage('User {userId} not found', { userId: '123' }); // 'User 123 not found'
+ */
+export function formatErrorMessage(template: string, data?: ErrorData): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    data?.[key] !== undefined ? String(data[key]) : placeholder,
+  );
 }
 
 /**
  * Type-safe factory for creating error classes
  *
+ * Passing a definition with a code registers the class in the error catalog;
+ * registering the same code twice throws DuplicateErrorCodeError. The
+ * definition also declares the class's default classification.
+ *
  * @example
  * const NotFoundError = createErrorClass<{ userId: string }>('NotFound');
  * const InvalidCredentialsError = createErrorClass<{ message: string }>('InvalidCredentials');
  *
  * throw new NotFoundError({ userId: '123' });
  * new InvalidCredentialsError({ message: 'Bad password' }).setStatus(401).raise();
+ *
+ * @example
+ * const UserNotFoundError = createErrorClass<{ userId: string }>('UserNotFound', {
+ *   code: 'USER_NOT_FOUND',
+ *   status: 404,
+ *   message: 'User {userId} not found',
+ * });
+ *
+ * new UserNotFoundError({ userId: '123' }).message; // 'User 123 not found'
+ *
+ * @example
+ * const UpstreamTimeoutError = createErrorClass('UpstreamTimeout', {
+ *   code: 'UPSTREAM_TIMEOUT',
+ *   status: 503,
+ *   retryable: true,
+ *   retryAfter: 30,
+ *   severity: 'warning',
+ * });
+ *
+ * new UpstreamTimeoutError().setRetryable(true, 60); // per-instance override
  */
-export function createErrorClass<T extends ErrorData = ErrorData>(name: string) {
-  return class extends AppError<T> {
+export function createErrorClass<T extends ErrorData = ErrorData>(
+  name: string,
+  definition?: ErrorDefinition,
+) {
+  const ErrorClass = class extends AppError<T> {
     static readonly errorName = name;
-    constructor(data?: T, innerError?: unknown) {
-      super(name, data, innerError);
+    static readonly code = definition?.code;
+    constructor(data?: T, cause?: unknown) {
+      super(name, data, cause);
+
+      if (definition?.status !== undefined) {
+        this.setStatus(definition.status);
+      }
+      if (definition) {
+        const { retryable, retryAfter, severity, userFacing } = definition;
+        this.classify({ retryable, retryAfter, severity, userFacing });
+      }
+      if (!data?.message && definition?.message) {
+        this.message = formatErrorMessage(definition.message, data);
+      }
     }
   };
+
+  if (definition?.code) {
+    errorRegistry.register(
+      {
+        code: definition.code,
+        name,
+        status: definition.status ?? 400,
+        message: definition.message,
+        description: definition.description,
+        retryable: definition.retryable ?? false,
+        severity: definition.severity ?? severityForStatus(definition.status ?? 400),
+      },
+      ErrorClass as unknown as RegisteredErrorClass,
+    );
+  }
+
+  return ErrorClass;
 }
@@ -0,0 +1,120 @@
+/**
+ * Third-Party Error Mappers
+ *
+ * Converts library errors into AppError subclasses with proper statuses,
+ * so GlobalExceptionFilter never has to fall back to a 500 UnknownError.
+ *
+ * Key Features:
+ * - Mappers registered by error class (instanceof) or by predicate
+ * - Later registrations win, so applications can override built-ins
+ * - Built-in mappers for JwtError (401) and ValidationFailedError (422)
+ * - Original error kept as the AppError's cause
+ */
+
+import { AppError, createErrorClass } from './app-error';
+import { DEFAULT_LOCALE } from './error-messages';
+import { JwtError } from '../helpers/jwt.helper';
+import { ValidationErrorDetail, ValidationFailedError } from '../decorators/validate-input';
+
+/**
+ * Context available to mappers
+ */
+export interface ErrorMapperContext {
+  /** Locale of the current request */
+  readonly locale: string;
+}
+
+export type ErrorMapFn<E> = (error: E, context: ErrorMapperContext) => AppError | undefined;
+
+type ErrorType<E> = abstract new (...args: never[]) => E;
+
+interface MapperEntry {
+  readonly matches: (error: unknown) => boolean;
+  readonly map: ErrorMapFn<unknown>;
+}
+
+export const InvalidTokenError = createErrorClass<{ reason: string; message?: string }>(
+  'InvalidToken',
+  { code: 'INVALID_TOKEN', status: 401, message: 'Invalid token: {reason}' },
+);
+
+export const InputValidationError = createErrorClass<{ fields: Record<string, unknown> }>(
+  'InputValidation',
+  { code: 'VALIDATION_FAILED', status: 422, message: 'Validation failed' },
+);
+
+// Rejected values stay on ValidationFailedError; the response only names the
+// failed constraints, since values may be passwords or other secrets
+function withoutValues(
+  details: Record<string, ValidationErrorDetail>,
+): Record<string, ValidationErrorDetail> {
+  const result: Record<string, ValidationErrorDetail> = {};
+
+  for (const [property, { value: _value, children, ...detail }] of Object.entries(details)) {
+    result[property] = { ...detail, ...(children && { children: withoutValues(children) }) };
+  }
+
+  return result;
+}
+
+/**
+ * Registry of error mappers
+ *
+ * @example
+ * // Map ORM errors by class
+ * errorMappers.register(EntityNotFoundError, (error) =>
+ *   new NotFoundError({ entity: error.entityName }, error),
+ * );
+ *
+ * @example
+ * // Map HTTP client errors by shape
+ * errorMappers.registerMatcher(
+ *   (error): error is AxiosError => isObject(error) && error.isAxiosError === true,
+ *   (error) => new UpstreamError({ url: error.config?.url }, error).setRetryable(true),
+ * );
+ */
+export class ErrorMapperRegistry {
+  private readonly entries: MapperEntry[] = [];
+
+  /**
+   * Map errors that are instances of the given class
+   */
+  register<E>(errorType: ErrorType<E>, map: ErrorMapFn<E>): this {
+    return this.registerMatcher((error): error is E => error instanceof errorType, map);
+  }
+
+  /**
+   * Map errors accepted by a type guard (duck-typed library errors)
+   */
+  registerMatcher<E>(matches: (error: unknown) => error is E, map: ErrorMapFn<E>): this {
+    this.entries.unshift({ matches, map: map as ErrorMapFn<unknown> });
+    return this;
+  }
+
+  /**
+   * Convert an error using the most recently registered matching mapper
+   * Returns undefined when no mapper handles it
+   */
+  map(error: unknown, context: ErrorMapperContext = { locale: DEFAULT_LOCALE }): AppError | undefined {
+    for (const entry of this.entries) {
+      if (entry.matches(error)) {
+        const mapped = entry.map(error, context);
+        if (mapped) return mapped;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Process-wide registry used by GlobalExceptionFilter, preloaded with
+ * mappers for this library's own errors
+ */
+export const errorMappers = new ErrorMapperRegistry()
+  .register(JwtError, (error) =>
+    new InvalidTokenError({ reason: error.code, message: error.message }, error),
+  )
+  .register(
+    ValidationFailedError,
+    (error, { locale }) => new InputValidationError({ fields: withoutValues(error.localizedDetails(locale)) }, error),
+  );
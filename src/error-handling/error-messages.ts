@@ -0,0 +1,136 @@
+/**
+ * Localized Error Messages
+ *
+ * Message catalog keyed by error code, with per-locale templates and
+ * Accept-Language negotiation. English is the fallback locale.
+ *
+ * Key Features:
+ * - Templates interpolate error data (`{name} is required`)
+ * - Accept-Language parsing with q-values and primary subtag fallback
+ * - Built-in English and Spanish messages for pipes and validators
+ * - Applications register their own codes and locales
+ */
+
+import { ErrorData, formatErrorMessage } from './app-error';
+
+/**
+ * Messages for one locale, keyed by error code
+ */
+export type LocaleMessages = Record<string, string>;
+
+export const DEFAULT_LOCALE = 'en';
+
+const BUILT_IN_MESSAGES: Record<string, LocaleMessages> = {
+  en: {
+    VALIDATION_FAILED: 'Validation failed',
+    PARAM_REQUIRED: '{name} is required',
+    PARAM_INVALID_INTEGERS: '{name} must contain only integers',
+    PARAM_INVALID_FORMAT: '{name} format is invalid',
+    PARAM_NOT_ALLOWED: '{name} must be one of: {allowed}',
+    PARAM_TOO_SHORT: '{name} must be at least {min} characters',
+    PARAM_TOO_LONG: '{name} must be at most {max} characters',
+    PARAM_INVALID_INTEGER: '{name} must be a valid integer',
+    PARAM_INVALID_UUID: '{name} must be a valid UUID',
+    IS_LONGER_THAN: '{property} must be longer than {relatedProperty}',
+    MATCH: '{property} must match {relatedProperty}',
+    IS_AFTER: '{property} must be after {relatedProperty}',
+    REQUIRE_ONE_OF: 'At least one of [{properties}] must be provided',
+  },
+  es: {
+    VALIDATION_FAILED: 'La validación ha fallado',
+    PARAM_REQUIRED: '{name} es obligatorio',
+    PARAM_INVALID_INTEGERS: '{name} solo puede contener números enteros',
+    PARAM_INVALID_FORMAT: 'El formato de {name} no es válido',
+    PARAM_NOT_ALLOWED: '{name} debe ser uno de: {allowed}',
+    PARAM_TOO_SHORT: '{name} debe tener al menos {min} caracteres',
+    PARAM_TOO_LONG: '{name} debe tener como máximo {max} caracteres',
+    PARAM_INVALID_INTEGER: '{name} debe ser un número entero válido',
+    PARAM_INVALID_UUID: '{name} debe ser un UUID válido',
+    IS_LONGER_THAN: '{property} debe ser más largo que {relatedProperty}',
+    MATCH: '{property} debe coincidir con {relatedProperty}',
+    IS_AFTER: '{property} debe ser posterior a {relatedProperty}',
+    REQUIRE_ONE_OF: 'Se debe indicar al menos uno de [{properties}]',
+  },
+};
+
+/**
+ * Error message catalog
+ *
+ * @example
+ * errorMessages.register('es', { USER_NOT_FOUND: 'Usuario {userId} no encontrado' });
+ *
+ * const locale = errorMessages.resolveLocale('es-ES,es;q=0.9,en;q=0.8'); // 'es'
+ * errorMessages.translate('USER_NOT_FOUND', locale, { userId: '123' }); // 'Usuario 123 no encontrado'
+ */
+export class ErrorMessageCatalog {
+  private readonly locales = new Map<string, LocaleMessages>();
+
+  constructor(
+    messages: Record<string, LocaleMessages> = BUILT_IN_MESSAGES,
+    private readonly fallbackLocale = DEFAULT_LOCALE,
+  ) {
+    for (const [locale, localeMessages] of Object.entries(messages)) {
+      this.register(locale, localeMessages);
+    }
+  }
+
+  /**
+   * Add or override messages for a locale
+   */
+  register(locale: string, messages: LocaleMessages): this {
+    const key = locale.toLowerCase();
+    this.locales.set(key, { ...this.locales.get(key), ...messages });
+    return this;
+  }
+
+  has(code: string): boolean {
+    return this.locales.get(this.fallbackLocale)?.[code] !== undefined;
+  }
+
+  get supportedLocales(): string[] {
+    return [...this.locales.keys()];
+  }
+
+  /**
+   * Render the message for a code, falling back to the default locale
+   * Returns undefined for unknown codes
+   */
+  translate(code: string, locale = this.fallbackLocale, params?: ErrorData): string | undefined {
+    const template =
+      this.locales.get(locale.toLowerCase())?.[code] ??
+      this.locales.get(this.fallbackLocale)?.[code];
+
+    return template !== undefined ? formatErrorMessage(template, params) : undefined;
+  }
+
+  /**
+   * Pick the best supported locale from an Accept-Language header
+   */
+  resolveLocale(acceptLanguage: string | undefined): string {
+    if (!acceptLanguage) return this.fallbackLocale;
+
+    const ranges = acceptLanguage
+      .split(',')
+      .map((part) => {
+        const [tag, ...params] = part.trim().toLowerCase().split(';');
+        const q = params.find((p) => p.trim().startsWith('q='));
+        return { tag: tag.trim(), q: q ? parseFloat(q.trim().slice(2)) : 1 };
+      })
+      .filter((range) => range.tag && range.q > 0)
+      .sort((a, b) => b.q - a.q);
+
+    for (const { tag } of ranges) {
+      if (this.locales.has(tag)) return tag;
+
+      const primary = tag.split('-')[0];
+      if (this.locales.has(primary)) return primary;
+    }
+
+    return this.fallbackLocale;
+  }
+}
+
+/**
+ * Process-wide catalog used by pipes, validators and GlobalExceptionFilter
+ */
+export const errorMessages = new ErrorMessageCatalog();
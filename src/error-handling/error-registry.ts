@@ -0,0 +1,113 @@
+/**
+ * Error Catalog Registry
+ *
+ * Central catalog of every error class declared with a stable machine code.
+ * Clients match on codes instead of class names, so renaming a class never
+ * breaks them.
+ *
+ * Key Features:
+ * - Stable codes decoupled from class names
+ * - Default HTTP status and message template per error
+ * - Duplicate codes fail fast at class declaration (startup)
+ * - Catalog listing for generating client enums and docs
+ */
+
+import type { AppError, ErrorClassification, ErrorData, ErrorSeverity } from './app-error';
+
+/**
+ * Declaration of an error class, passed to createErrorClass
+ * Classes with a code are registered in the catalog
+ */
+export interface ErrorDefinition extends ErrorClassification {
+  /** Stable machine code (e.g. 'USER_NOT_FOUND') */
+  readonly code?: string;
+  /** Default HTTP status for instances of this error */
+  readonly status?: number;
+  /** Message template, interpolates data keys: 'User {userId} not found' */
+  readonly message?: string;
+  /** Human readable description for generated docs */
+  readonly description?: string;
+}
+
+/**
+ * Constructor shape of a registered error class
+ */
+export type RegisteredErrorClass<T extends ErrorData = ErrorData> = new (
+  data?: T,
+  cause?: unknown,
+) => AppError<T>;
+
+/**
+ * Catalog entry describing a registered error
+ */
+export interface ErrorDescriptor {
+  readonly code: string;
+  readonly name: string;
+  readonly status: number;
+  readonly message?: string;
+  readonly description?: string;
+  readonly retryable: boolean;
+  readonly severity: ErrorSeverity;
+}
+
+interface RegistryEntry {
+  readonly descriptor: ErrorDescriptor;
+  readonly errorClass: RegisteredErrorClass;
+}
+
+export class DuplicateErrorCodeError extends Error {
+  constructor(
+    public readonly code: string,
+    existingName: string,
+  ) {
+    super(`Error code "${code}" is already registered by ${existingName}`);
+    this.name = 'DuplicateErrorCodeError';
+    Error.captureStackTrace(this, DuplicateErrorCodeError);
+  }
+}
+
+/**
+ * Registry of catalogued error classes keyed by code
+ *
+ * @example
+ * // Generate a client-side enum
+ * const lines = errorRegistry.list().map((e) => `  ${e.code} = '${e.code}',`);
+ * const source = `export enum ErrorCode {\n${lines.join('\n')}\n}`;
+ */
+export class ErrorRegistry {
+  private readonly entries = new Map<string, RegistryEntry>();
+
+  register(descriptor: ErrorDescriptor, errorClass: RegisteredErrorClass): void {
+    const existing = this.entries.get(descriptor.code);
+    if (existing) {
+      throw new DuplicateErrorCodeError(descriptor.code, existing.descriptor.name);
+    }
+    this.entries.set(descriptor.code, { descriptor, errorClass });
+  }
+
+  has(code: string): boolean {
+    return this.entries.has(code);
+  }
+
+  get(code: string): ErrorDescriptor | undefined {
+    return this.entries.get(code)?.descriptor;
+  }
+
+  getClass(code: string): RegisteredErrorClass | undefined {
+    return this.entries.get(code)?.errorClass;
+  }
+
+  /**
+   * List every registered error, sorted by code for stable output
+   */
+  list(): ErrorDescriptor[] {
+    return [...this.entries.values()]
+      .map((entry) => entry.descriptor)
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+}
+
+/**
+ * Process-wide registry used by createErrorClass
+ */
+export const errorRegistry = new ErrorRegistry();
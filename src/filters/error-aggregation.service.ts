@@ -0,0 +1,251 @@
+/**
+ * Error Fingerprint Aggregation
+ *
+ * Groups exceptions by fingerprint and counts them in a sliding window so a
+ * hot failure produces sampled summaries instead of flooding the logs.
+ *
+ * Key Features:
+ * - Fingerprint from error name, route and top stack frames
+ * - Sliding window counters behind a pluggable store interface
+ * - Time-bucketed in-memory counters: constant cost and memory per fingerprint
+ * - Log-first-N then sampled summary decisions
+ * - Top failing fingerprints for health/metrics endpoints
+ */
+
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+
+/**
+ * Identity of an error group
+ */
+export interface ErrorFingerprintKey {
+  readonly fingerprint: string;
+  readonly name: string;
+  readonly route: string;
+}
+
+/**
+ * Counters for one fingerprint
+ */
+export interface ErrorFingerprintStats extends ErrorFingerprintKey {
+  /** Occurrences within the sliding window */
+  readonly count: number;
+  /** Occurrences since the store was created */
+  readonly total: number;
+  readonly firstSeen: number;
+  readonly lastSeen: number;
+}
+
+/**
+ * Pluggable counter storage
+ */
+export interface ErrorFingerprintStore {
+  /** Record an occurrence and return the updated counters */
+  increment(key: ErrorFingerprintKey, timestamp: number, windowMs: number): ErrorFingerprintStats;
+  /** Fingerprints with the most occurrences in the window */
+  top(limit: number, timestamp: number, windowMs: number): ErrorFingerprintStats[];
+  reset(): void;
+}
+
+export interface ErrorAggregationConfig {
+  /** Sliding window length (default: 60s) */
+  windowMs?: number;
+  /** Occurrences per window logged in full (default: 5) */
+  logFirst?: number;
+  /** After logFirst, log a summary every N occurrences (default: 100) */
+  sampleEvery?: number;
+  /** Stack frames included in the fingerprint (default: 3) */
+  stackFrames?: number;
+}
+
+/**
+ * What the caller should log for an occurrence
+ */
+export type ErrorLogDecision = 'full' | 'summary' | 'suppress';
+
+export interface ErrorOccurrence {
+  readonly stats: ErrorFingerprintStats;
+  readonly decision: ErrorLogDecision;
+  readonly windowMs: number;
+}
+
+// Window split into fixed buckets; counts are exact to one bucket length
+const WINDOW_BUCKETS = 10;
+
+interface FingerprintEntry {
+  readonly key: ErrorFingerprintKey;
+  /** Ring of per-bucket counts, indexed by bucket number modulo WINDOW_BUCKETS */
+  readonly counts: number[];
+  /** Start time of the bucket each slot currently holds */
+  readonly starts: number[];
+  total: number;
+  readonly firstSeen: number;
+  lastSeen: number;
+}
+
+/**
+ * In-memory store, evicts the least recently seen fingerprint when full
+ */
+export class InMemoryErrorFingerprintStore implements ErrorFingerprintStore {
+  private readonly entries = new Map<string, FingerprintEntry>();
+
+  constructor(private readonly maxFingerprints = 1000) {}
+
+  increment(key: ErrorFingerprintKey, timestamp: number, windowMs: number): ErrorFingerprintStats {
+    let entry = this.entries.get(key.fingerprint);
+
+    if (!entry) {
+      this.evictIfFull();
+      entry = {
+        key,
+        counts: new Array<number>(WINDOW_BUCKETS).fill(0),
+        starts: new Array<number>(WINDOW_BUCKETS).fill(-Infinity),
+        total: 0,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+      };
+    }
+
+    // Re-insert to keep Map order = recency order
+    this.entries.delete(key.fingerprint);
+    this.entries.set(key.fingerprint, entry);
+
+    const bucketMs = Math.max(1, Math.ceil(windowMs / WINDOW_BUCKETS));
+    const bucket = Math.floor(timestamp / bucketMs);
+    const slot = bucket % WINDOW_BUCKETS;
+
+    // Slot still holds an older bucket: reuse it
+    if (entry.starts[slot] !== bucket * bucketMs) {
+      entry.starts[slot] = bucket * bucketMs;
+      entry.counts[slot] = 0;
+    }
+
+    entry.counts[slot] += 1;
+    entry.total += 1;
+    entry.lastSeen = timestamp;
+
+    return this.toStats(entry, timestamp, windowMs);
+  }
+
+  top(limit: number, timestamp: number, windowMs: number): ErrorFingerprintStats[] {
+    return [...this.entries.values()]
+      .map((entry) => this.toStats(entry, timestamp, windowMs))
+      .filter((stats) => stats.count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
+  reset(): void {
+    this.entries.clear();
+  }
+
+  private evictIfFull(): void {
+    if (this.entries.size < this.maxFingerprints) return;
+
+    const oldest = this.entries.keys().next();
+    if (!oldest.done) {
+      this.entries.delete(oldest.value);
+    }
+  }
+
+  private toStats(entry: FingerprintEntry, timestamp: number, windowMs: number): ErrorFingerprintStats {
+    const count = entry.counts.reduce(
+      (sum, bucketCount, slot) => (entry.starts[slot] > timestamp - windowMs ? sum + bucketCount : sum),
+      0,
+    );
+
+    return {
+      ...entry.key,
+      count,
+      total: entry.total,
+      firstSeen: entry.firstSeen,
+      lastSeen: entry.lastSeen,
+    };
+  }
+}
+
+/**
+ * Error aggregation service
+ *
+ * @example
+ * // In app.module.ts
+ * providers: [
+ *   { provide: ErrorAggregationService, useValue: new ErrorAggregationService() },
+ * ]
+ *
+ * // In a health controller
+ * @Get('errors')
+ * topErrors() {
+ *   return this.errorAggregation.getTopFingerprints(10);
+ * }
+ */
+@Injectable()
+export class ErrorAggregationService {
+  private readonly config: Required<ErrorAggregationConfig>;
+
+  constructor(
+    private readonly store: ErrorFingerprintStore = new InMemoryErrorFingerprintStore(),
+    config: ErrorAggregationConfig = {},
+  ) {
+    this.config = {
+      windowMs: config.windowMs ?? 60_000,
+      logFirst: config.logFirst ?? 5,
+      sampleEvery: config.sampleEvery ?? 100,
+      stackFrames: config.stackFrames ?? 3,
+    };
+  }
+
+  /**
+   * Stable fingerprint for an exception on a route
+   */
+  fingerprint(exception: unknown, route: string): ErrorFingerprintKey {
+    const name = exception instanceof Error ? exception.name : 'UnknownError';
+    const frames = exception instanceof Error ? this.topFrames(exception.stack) : [];
+
+    const fingerprint = createHash('sha1')
+      .update([name, route, ...frames].join('\n'))
+      .digest('hex')
+      .slice(0, 12);
+
+    return { fingerprint, name, route };
+  }
+
+  /**
+   * Count an occurrence and decide how it should be logged
+   */
+  record(exception: unknown, route: string): ErrorOccurrence {
+    const stats = this.store.increment(
+      this.fingerprint(exception, route),
+      Date.now(),
+      this.config.windowMs,
+    );
+
+    return { stats, decision: this.decide(stats.count), windowMs: this.config.windowMs };
+  }
+
+  getTopFingerprints(limit = 10): ErrorFingerprintStats[] {
+    return this.store.top(limit, Date.now(), this.config.windowMs);
+  }
+
+  reset(): void {
+    this.store.reset();
+  }
+
+  private decide(count: number): ErrorLogDecision {
+    const { logFirst, sampleEvery } = this.config;
+
+    if (count <= logFirst) return 'full';
+    if ((count - logFirst - 1) % sampleEvery === 0) return 'summary';
+    return 'suppress';
+  }
+
+  private topFrames(stack: string | undefined): string[] {
+    if (!stack) return [];
+
+    return stack
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith('at '))
+      .slice(0, this.config.stackFrames);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Error Response Formatters
+ *
+ * Strategies for rendering a caught exception into an HTTP response body.
+ * Used by GlobalExceptionFilter; applications can plug in their own.
+ *
+ * Key Features:
+ * - Default envelope (timestamp, trace IDs, error{})
+ * - RFC 9457 application/problem+json with extension members
+ * - Custom formatter hook via a plain function type
+ */
+
+import { STATUS_CODES } from 'http';
+import { ErrorSeverity } from '../error-handling/app-error';
+import { isObject } from '../utils/utils.helper';
+
+/**
+ * Normalized error passed to formatters
+ * Debug-only fields (stack, causes, errors) are already stripped in production
+ */
+export interface ErrorResponseContext {
+  readonly timestamp: string;
+  readonly errorTraceId: string;
+  readonly requestTraceId: string | undefined;
+  readonly status: number;
+  readonly name: string;
+  readonly code?: string;
+  readonly data?: unknown;
+  readonly severity: ErrorSeverity;
+  readonly retryable?: boolean;
+  /** Suggested retry delay in seconds (also sent as Retry-After) */
+  readonly retryAfter?: number;
+  readonly stack?: string;
+  /** Serialized cause chain, nearest cause first */
+  readonly causes?: unknown[];
+  /** Serialized child errors of an aggregate error */
+  readonly errors?: unknown[];
+  /** Request path the error occurred on */
+  readonly instance: string;
+}
+
+/**
+ * Rendered response: body plus the content type to send it with
+ */
+export interface FormattedErrorResponse {
+  readonly contentType: string;
+  readonly body: unknown;
+}
+
+export type ErrorResponseFormatter = (context: ErrorResponseContext) => FormattedErrorResponse;
+
+/**
+ * Default response shape
+ */
+export interface ErrorResponse {
+  readonly timestamp: string;
+  readonly errorTraceId: string;
+  readonly requestTraceId: string | undefined;
+  readonly status: number;
+  readonly error: {
+    readonly name: string;
+    readonly code?: string;
+    readonly data?: unknown;
+    readonly retryable?: boolean;
+    readonly retryAfter?: number;
+    readonly stack?: string;
+    readonly causes?: unknown[];
+    readonly errors?: unknown[];
+  };
+}
+
+/**
+ * RFC 9457 problem details, extension members alongside standard ones
+ */
+export interface ProblemDetails {
+  readonly type: string;
+  readonly title: string;
+  readonly status: number;
+  readonly detail?: string;
+  readonly instance?: string;
+  readonly [extension: string]: unknown;
+}
+
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+const PROBLEM_RESERVED_MEMBERS = new Set(['type', 'title', 'status', 'detail', 'instance']);
+
+export const defaultErrorFormatter: ErrorResponseFormatter = (context) => {
+  const body: ErrorResponse = {
+    timestamp: context.timestamp,
+    errorTraceId: context.errorTraceId,
+    requestTraceId: context.requestTraceId,
+    status: context.status,
+    error: {
+      name: context.name,
+      ...(context.code && { code: context.code }),
+      data: context.data,
+      ...(context.retryable && { retryable: true, retryAfter: context.retryAfter }),
+      ...(context.stack !== undefined && { stack: context.stack }),
+      ...(context.causes?.length && { causes: context.causes }),
+      ...(context.errors?.length && { errors: context.errors }),
+    },
+  };
+
+  return { contentType: 'application/json', body };
+};
+
+/**
+ * Create an RFC 9457 formatter
+ *
+ * Error data members become problem extension members. Validation messages
+ * (ValidationPipe's `message: string[]`) are exposed as `errors`.
+ *
+ * @param typeBaseUri - When set, `type` is `${typeBaseUri}/${code}` for coded errors
+ *
+ * @example
+ * createProblemJsonFormatter({ typeBaseUri: 'https://api.example.com/problems' })
+ * // { type: 'https://api.example.com/problems/USER_NOT_FOUND', title: 'Not Found', status: 404, ... }
+ */
+export function createProblemJsonFormatter(
+  options: { typeBaseUri?: string } = {},
+): ErrorResponseFormatter {
+  return (context) => {
+    const data = isObject(context.data) ? context.data : {};
+    const { message, ...members } = data;
+
+    const extensions: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(members)) {
+      if (!PROBLEM_RESERVED_MEMBERS.has(key)) {
+        extensions[key] = value;
+      }
+    }
+
+    if (Array.isArray(message)) {
+      extensions.errors = message;
+    }
+
+    const body: ProblemDetails = {
+      type:
+        options.typeBaseUri && context.code
+          ? `${options.typeBaseUri.replace(/\/$/, '')}/${context.code}`
+          : 'about:blank',
+      title: STATUS_CODES[context.status] ?? context.name,
+      status: context.status,
+      ...(typeof message === 'string' && message && { detail: message }),
+      instance: context.instance,
+      ...extensions,
+      name: context.name,
+      ...(context.code && { code: context.code }),
+      ...(context.retryable && { retryable: true, retryAfter: context.retryAfter }),
+      errorTraceId: context.errorTraceId,
+      requestTraceId: context.requestTraceId,
+      timestamp: context.timestamp,
+      ...(context.stack !== undefined && { stack: context.stack }),
+      ...(context.causes?.length && { causes: context.causes }),
+      ...(context.errors?.length && { childErrors: context.errors }),
+    };
+
+    return { contentType: PROBLEM_JSON_CONTENT_TYPE, body };
+  };
+}
+
+export const problemJsonFormatter = createProblemJsonFormatter();
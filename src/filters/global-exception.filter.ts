@@ -6,15 +6,23 @@
  * Key Features:
  * - REQUEST-scoped for access to request context
  * - Type guards (isAppError, isHttpException) instead of `in` operator
- * - randomBytes from crypto for secure trace IDs
+ * - Error trace IDs derived from the request trace ID (random fallback)
  * - LoggerService type from NestJS instead of `any`
  * - Handle `unknown` exception type properly
  * - Conditional stack trace exposure based on debug mode
+ * - Pluggable response formatters (default envelope, RFC 9457 problem+json)
+ * - Cause chain and aggregate child errors rendered in debug mode only
+ * - Transport-aware envelopes for HTTP, RPC, WebSocket and GraphQL hosts
+ * - Optional fingerprint aggregation with sampled logging of hot failures
+ * - Messages localized from the error catalog by request locale
+ * - Severity-based log levels, Retry-After from error classification
+ * - Third-party errors converted to AppError via pluggable mappers
  */
 
 import {
   ArgumentsHost,
   Catch,
+  ContextType,
   ExceptionFilter,
   HttpException,
   Injectable,
@@ -23,23 +31,101 @@ import {
 } from '@nestjs/common';
 import { Response, Request } from 'express';
 import { randomBytes } from 'crypto';
-import { AppError, ErrorData } from '../error-handling/app-error';
+import { Observable, throwError } from 'rxjs';
+import { serializeError } from 'serialize-error';
+import {
+  AggregateAppError,
+  AppError,
+  ErrorData,
+  ErrorSeverity,
+  getCauseChain,
+  severityForStatus,
+} from '../error-handling/app-error';
+import {
+  ErrorResponse,
+  ErrorResponseContext,
+  ErrorResponseFormatter,
+  PROBLEM_JSON_CONTENT_TYPE,
+  createProblemJsonFormatter,
+  defaultErrorFormatter,
+} from './error-response.formatter';
+import { DEFAULT_LOCALE, errorMessages } from '../error-handling/error-messages';
+import { ErrorMapperRegistry, errorMappers } from '../error-handling/error-mappers';
+import { TraceContext, resolveRequestLocale } from '../context/request-context.service';
+import { ensureTraceData, getTraceData } from '../interceptors/trace-context.interceptor';
+import { isObject } from '../utils/utils.helper';
+import { ErrorAggregationService } from './error-aggregation.service';
 
 interface AppConfig {
   readonly isDebugMode: boolean;
+  /** Response format: 'default' envelope, RFC 9457 'problem', or a custom formatter */
+  readonly responseFormat?: 'default' | 'problem' | ErrorResponseFormatter;
+  /** Serve problem+json whenever the client's Accept header asks for it */
+  readonly negotiateProblemJson?: boolean;
+  /** Base URI for problem `type` members, suffixed with the error code */
+  readonly problemTypeBaseUri?: string;
+  /** Event emitted to WebSocket clients on failure (default: 'exception') */
+  readonly wsErrorEvent?: string;
+  /** Mappers for third-party errors (default: the global errorMappers registry) */
+  readonly errorMappers?: ErrorMapperRegistry;
+}
+
+/**
+ * Minimal WebSocket client shape (socket.io / ws adapters)
+ */
+interface WsClient {
+  emit(event: string, payload: unknown): unknown;
+  handshake?: { headers?: Record<string, string | string[] | undefined> };
 }
 
-interface ErrorResponse {
-  readonly timestamp: string;
-  readonly errorTraceId: string;
+/**
+ * Error returned to the GraphQL layer; `extensions` ends up in the response
+ */
+interface GraphqlError extends Error {
+  extensions: Record<string, unknown>;
+}
+
+/**
+ * Inputs for building an error response context
+ */
+interface ErrorScope {
   readonly requestTraceId: string | undefined;
-  readonly status: number;
-  readonly error: {
-    readonly name: string;
-    readonly data?: unknown;
-    readonly stack?: string;
-    readonly innerError?: unknown;
-  };
+  readonly instance: string;
+  readonly locale?: string;
+  /** Object errors are counted against, e.g. the HTTP request */
+  readonly owner?: object;
+}
+
+const ERROR_TRACE_PREFIX = 'ERR';
+const REQUEST_TRACE_PREFIX = 'req';
+
+// Errors raised so far per request, for ERR-<id>-2, -3, ... suffixes
+const errorCounts = new WeakMap<object, number>();
+
+/**
+ * Recover the request trace ID an error trace ID was derived from
+ *
+ * @example
+ * requestIdFromErrorTraceId('ERR-7K3M9PQX');   // 'req-7K3M9PQX'
+ * requestIdFromErrorTraceId('ERR-7K3M9PQX-2'); // 'req-7K3M9PQX'
+ */
+export function requestIdFromErrorTraceId(errorTraceId: string): string | undefined {
+  const match = /^ERR-([23456789A-HJ-NP-Z]+)(?:-\d+)?$/.exec(errorTraceId);
+  return match ? `${REQUEST_TRACE_PREFIX}-${match[1]}` : undefined;
+}
+
+// Request ID set by TraceContextInterceptor, the single source of truth
+function readTraceRequestId(request: Request): string | undefined {
+  const context = (request as Request & { context?: { trace?: TraceContext } }).context;
+  return getTraceData(request)?.requestId ?? context?.trace?.requestId;
+}
+
+// Read a client-supplied request trace ID from a header bag (non-HTTP transports)
+function readRequestId(
+  headers: Record<string, string | string[] | undefined> | undefined,
+): string | undefined {
+  const value = headers?.['x-request-id'];
+  return Array.isArray(value) ? value[0] : value;
 }
 
 // Type guard for AppError
@@ -58,6 +144,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
   constructor(
     private readonly logger: LoggerService,
     private readonly config: AppConfig,
+    private readonly aggregation?: ErrorAggregationService,
   ) {}
 
   // Cryptographically secure trace ID generation
@@ -67,30 +154,87 @@ export class GlobalExceptionFilter implements ExceptionFilter {
     return `${prefix}-${Array.from(bytes, (b) => chars[b % chars.length]).join('')}`;
   }
 
-  private extractErrorData(exception: unknown): {
+  // ERR-<request id>, suffixed -2, -3, ... for further errors on the same request
+  private deriveErrorTraceId(requestTraceId: string | undefined, owner?: object): string {
+    const requestPrefix = `${REQUEST_TRACE_PREFIX}-`;
+    if (!requestTraceId?.startsWith(requestPrefix)) {
+      return this.generateTraceId(ERROR_TRACE_PREFIX);
+    }
+
+    const base = `${ERROR_TRACE_PREFIX}-${requestTraceId.slice(requestPrefix.length)}`;
+    if (!owner) {
+      return base;
+    }
+
+    const count = (errorCounts.get(owner) ?? 0) + 1;
+    errorCounts.set(owner, count);
+    return count === 1 ? base : `${base}-${count}`;
+  }
+
+  private resolveFormatter(request: Request): ErrorResponseFormatter {
+    const { responseFormat = 'default', negotiateProblemJson, problemTypeBaseUri } = this.config;
+    const problemFormatter = createProblemJsonFormatter({ typeBaseUri: problemTypeBaseUri });
+
+    if (negotiateProblemJson && request.headers.accept?.includes(PROBLEM_JSON_CONTENT_TYPE)) {
+      return problemFormatter;
+    }
+
+    if (typeof responseFormat === 'function') {
+      return responseFormat;
+    }
+
+    return responseFormat === 'problem' ? problemFormatter : defaultErrorFormatter;
+  }
+
+  private extractErrorData(exception: unknown, locale: string): {
     status: number;
     name: string;
+    code?: string;
     data?: unknown;
     stack?: string;
-    innerError?: unknown;
+    severity: ErrorSeverity;
+    retryable?: boolean;
+    retryAfter?: number;
+    userFacing?: boolean;
   } {
-    if (isAppError(exception)) {
+    const appError = isAppError(exception)
+      ? exception
+      : (this.config.errorMappers ?? errorMappers).map(exception, { locale });
+
+    if (appError) {
+      // Wire format redacts sensitive data keys
+      const serialized = appError.serialize();
+      // Explicit messages win over catalog templates
+      const localized =
+        appError.code && !appError.data?.message
+          ? errorMessages.translate(appError.code, locale, serialized.data)
+          : undefined;
+      const message = localized ?? appError.message;
+
       return {
-        status: exception.status,
-        name: exception.name,
-        data: exception.data,
-        stack: exception.stack,
-        innerError: exception.innerError,
+        status: appError.status,
+        name: appError.name,
+        code: appError.code,
+        data: message ? { ...serialized.data, message } : serialized.data,
+        // Mapped errors keep the original stack
+        stack: exception instanceof Error ? exception.stack : appError.stack,
+        severity: appError.severity,
+        retryable: appError.retryable,
+        retryAfter: appError.retryAfter,
+        userFacing: appError.userFacing,
       };
     }
 
     if (isHttpException(exception)) {
       const response = exception.getResponse();
+      const status = exception.getStatus();
       return {
-        status: exception.getStatus(),
+        status,
         name: exception.name,
-        data: typeof response === 'object' ? response : { message: response },
+        data: isObject(response) ? this.localizeResponse(response, locale) : { message: response },
         stack: exception.stack,
+        severity: severityForStatus(status),
+        retryable: status === 429 || status === 503,
       };
     }
 
@@ -99,6 +243,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
         status: 500,
         name: exception.name,
         stack: exception.stack,
+        severity: 'error',
       };
     }
 
@@ -106,39 +251,204 @@ export class GlobalExceptionFilter implements ExceptionFilter {
       status: 500,
       name: 'UnknownError',
       data: { message: String(exception) },
+      severity: 'error',
     };
   }
 
-  catch(exception: unknown, host: ArgumentsHost): void {
-    const ctx = host.switchToHttp();
-    const response = ctx.getResponse<Response>();
-    const request = ctx.getRequest<Request>();
+  // Pipes attach a catalog code and params to their error responses
+  private localizeResponse(response: Record<string, unknown>, locale: string): Record<string, unknown> {
+    if (typeof response.code !== 'string') {
+      return response;
+    }
 
-    const errorData = this.extractErrorData(exception);
+    const params = isObject(response.params) ? response.params : response;
+    const message = errorMessages.translate(response.code, locale, params);
+    return message ? { ...response, message } : response;
+  }
 
-    this.logger.log(
-      `${request.method} ${request.path} Failed: ${errorData.status}`,
-    );
+  // Serialize one link of a cause chain without its own nested cause
+  private serializeLink(error: unknown): unknown {
+    const serialized = isAppError(error)
+      ? error.serialize({ includeStack: this.config.isDebugMode })
+      : serializeError(error);
 
-    if (this.config.isDebugMode || errorData.status >= 500) {
-      this.logger.error(exception);
+    if (typeof serialized !== 'object' || serialized === null) {
+      return serialized;
     }
+    const { cause: _cause, ...link } = serialized as Record<string, unknown>;
+    return link;
+  }
+
+  private extractChildErrors(exception: unknown): readonly unknown[] | undefined {
+    if (exception instanceof AggregateAppError || exception instanceof AggregateError) {
+      return exception.errors;
+    }
+    return undefined;
+  }
+
+  private buildContext(exception: unknown, scope: ErrorScope): ErrorResponseContext {
+    const { requestTraceId, instance, locale = DEFAULT_LOCALE, owner } = scope;
+    const errorData = this.extractErrorData(exception, locale);
 
-    const errorResponse: ErrorResponse = {
+    return {
       timestamp: new Date().toISOString(),
-      errorTraceId: this.generateTraceId('ERR'),
-      requestTraceId: request.headers['x-request-id'] as string | undefined,
+      errorTraceId: this.deriveErrorTraceId(requestTraceId, owner),
+      requestTraceId,
       status: errorData.status,
-      error: {
-        name: errorData.name,
-        data: errorData.data,
-        ...(this.config.isDebugMode && {
-          stack: errorData.stack,
-          innerError: errorData.innerError,
-        }),
-      },
+      name: errorData.name,
+      code: errorData.code,
+      // Internal errors only expose their data in debug mode
+      data: errorData.userFacing === false && !this.config.isDebugMode ? undefined : errorData.data,
+      severity: errorData.severity,
+      ...(errorData.retryable && { retryable: true, retryAfter: errorData.retryAfter }),
+      instance,
+      ...(this.config.isDebugMode && {
+        stack: errorData.stack,
+        causes: getCauseChain(exception).map((cause) => this.serializeLink(cause)),
+        errors: this.extractChildErrors(exception)?.map((error) => this.serializeLink(error)),
+      }),
     };
+  }
+
+  private logFailure(
+    label: string,
+    route: string,
+    exception: unknown,
+    context: ErrorResponseContext,
+  ): void {
+    const { status, severity, errorTraceId, requestTraceId } = context;
+    const occurrence = this.aggregation?.record(exception, route);
 
-    response.status(errorData.status).json(errorResponse);
+    if (occurrence?.decision === 'suppress') {
+      return;
+    }
+
+    if (occurrence?.decision === 'summary') {
+      const { stats, windowMs } = occurrence;
+      this.logger.warn(
+        `${route} ${stats.name} [${stats.fingerprint}] occurred ${stats.count} times ` +
+          `in the last ${Math.round(windowMs / 1000)}s (sampled, latest ${errorTraceId})`,
+      );
+      return;
+    }
+
+    const message = `${label} Failed: ${status} [${requestTraceId ?? '-'} ${errorTraceId}]`;
+    switch (severity) {
+      case 'debug':
+        this.logger.debug?.(message);
+        break;
+      case 'warning':
+        this.logger.warn(message);
+        break;
+      case 'error':
+      case 'critical':
+        this.logger.error(message);
+        break;
+      default:
+        this.logger.log(message);
+    }
+
+    if (this.config.isDebugMode || severity === 'error' || severity === 'critical') {
+      this.logger.error(exception);
+    }
+  }
+
+  catch(exception: unknown, host: ArgumentsHost): unknown {
+    switch (host.getType<ContextType | 'graphql'>()) {
+      case 'rpc':
+        return this.catchRpc(exception, host);
+      case 'ws':
+        return this.catchWs(exception, host);
+      case 'graphql':
+        return this.catchGraphql(exception, host);
+      default:
+        return this.catchHttp(exception, host);
+    }
+  }
+
+  private catchHttp(exception: unknown, host: ArgumentsHost): void {
+    const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+    const request = ctx.getRequest<Request>();
+
+    // Guard errors (401, 403, 429) are thrown before TraceContextInterceptor runs
+    const requestTraceId = readTraceRequestId(request) ?? ensureTraceData(request).requestId;
+    if (!response.hasHeader('X-Request-Id')) {
+      response.setHeader('X-Request-Id', requestTraceId);
+    }
+
+    const context = this.buildContext(exception, {
+      requestTraceId,
+      instance: request.path,
+      locale: resolveRequestLocale(request),
+      owner: request,
+    });
+    // Route pattern (not the concrete path) so /orders/1 and /orders/2 aggregate together
+    const route = `${request.method} ${(request.route as { path?: string } | undefined)?.path ?? request.path}`;
+    this.logFailure(`${request.method} ${request.path}`, route, exception, context);
+
+    if (context.retryAfter !== undefined) {
+      response.setHeader('Retry-After', String(context.retryAfter));
+    }
+
+    const formatted = this.resolveFormatter(request)(context);
+    response.status(context.status).type(formatted.contentType).json(formatted.body);
+  }
+
+  // RpcException-style payload, propagated to the caller as an error
+  private catchRpc(exception: unknown, host: ArgumentsHost): Observable<never> {
+    const rpc = host.switchToRpc();
+    const data = rpc.getData<unknown>();
+    const requestId = isObject(data) && typeof data.requestId === 'string' ? data.requestId : undefined;
+
+    const context = this.buildContext(exception, { requestTraceId: requestId, instance: 'rpc' });
+    this.logFailure('RPC', 'RPC', exception, context);
+
+    const payload = defaultErrorFormatter(context).body;
+    return throwError(() => payload);
+  }
+
+  // Error event emitted to the connected client
+  private catchWs(exception: unknown, host: ArgumentsHost): void {
+    const ws = host.switchToWs();
+    const client = ws.getClient<WsClient>();
+    const pattern = ws.getPattern();
+
+    const context = this.buildContext(exception, {
+      requestTraceId: readRequestId(client.handshake?.headers),
+      instance: pattern,
+      owner: client,
+    });
+    this.logFailure(`WS ${pattern}`, `WS ${pattern}`, exception, context);
+
+    client.emit(this.config.wsErrorEvent ?? 'exception', defaultErrorFormatter(context).body);
+  }
+
+  // Returned error is rethrown by Nest and rendered by the GraphQL server
+  private catchGraphql(exception: unknown, host: ArgumentsHost): GraphqlError {
+    const [, , gqlContext, info] = host.getArgs<[unknown, unknown, unknown, unknown]>();
+    const req = isObject(gqlContext) && isObject(gqlContext.req) ? (gqlContext.req as unknown as Request) : undefined;
+    const fieldName = isObject(info) && typeof info.fieldName === 'string' ? info.fieldName : 'graphql';
+
+    const context = this.buildContext(exception, {
+      requestTraceId: req && (readTraceRequestId(req) ?? readRequestId(req.headers)),
+      instance: fieldName,
+      owner: req,
+    });
+    this.logFailure(`GraphQL ${fieldName}`, `GraphQL ${fieldName}`, exception, context);
+
+    const message = isObject(context.data) && typeof context.data.message === 'string'
+      ? context.data.message
+      : context.name;
+
+    const { error } = defaultErrorFormatter(context).body as ErrorResponse;
+    return Object.assign(new Error(message), {
+      extensions: {
+        ...error,
+        status: context.status,
+        errorTraceId: context.errorTraceId,
+        requestTraceId: context.requestTraceId,
+      },
+    });
   }
 }
@@ -9,6 +9,9 @@
  * - Reflector metadata integration
  * - Configurable production identifiers
  * - Works with custom decorators
+ * - Single @TestOnly() decorator, also re-exported by the auth decorators
+ * - Startup check refusing to boot production with reachable test-only routes
+ * - Decisions on restricted endpoints recorded by the authorization audit log
  */
 
 import {
@@ -16,9 +19,19 @@ import {
   CanActivate,
   ExecutionContext,
   ForbiddenException,
+  Inject,
+  INestApplicationContext,
+  Optional,
   SetMetadata,
 } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
+import { APP_GUARD, ApplicationConfig, ModulesContainer, Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import {
+  AuthorizationAuditor,
+  AuthorizationDecision,
+  authorizationAudit,
+} from '../audit/authorization-audit';
+import { buildRouteManifest, RouteManifestEntry } from '../audit/route-manifest';
 
 /**
  * Environment types
@@ -35,6 +48,7 @@ export enum Environment {
  */
 export const ALLOWED_ENVIRONMENTS_KEY = 'guard:allowedEnvironments';
 export const BLOCKED_ENVIRONMENTS_KEY = 'guard:blockedEnvironments';
+export const TEST_ONLY_KEY = 'auth:testOnly';
 
 /**
  * Configuration for environment guard
@@ -44,10 +58,17 @@ export interface EnvironmentGuardConfig {
   currentEnvironment: Environment | string;
   /** Additional production environment identifiers */
   productionIdentifiers?: string[];
+  /** Environments serving @TestOnly() endpoints (default: development, test) */
+  testEnvironments?: string[];
   /** Whether to throw or just return false */
   throwOnForbidden?: boolean;
 }
 
+/**
+ * Injection token for EnvironmentGuard configuration
+ */
+export const ENVIRONMENT_GUARD_CONFIG = 'environment:config';
+
 /**
  * Decorator to allow endpoint only in specific environments
  *
@@ -73,7 +94,8 @@ export function BlockedIn(...environments: (Environment | string)[]) {
 }
 
 /**
- * Shortcut decorator for test-only endpoints
+ * Decorator for test-only endpoints, on a handler or a whole controller
+ * Served only in the guard's test environments (development and test by default)
  *
  * @example
  * @TestOnly()
@@ -81,7 +103,7 @@ export function BlockedIn(...environments: (Environment | string)[]) {
  * seedTestData() { ... }
  */
 export function TestOnly() {
-  return AllowedIn(Environment.DEVELOPMENT, Environment.TEST);
+  return SetMetadata(TEST_ONLY_KEY, true);
 }
 
 /**
@@ -116,6 +138,13 @@ export function NonProduction() {
  *   ],
  * })
  * export class AppModule {}
+ *
+ * @example
+ * // Or let Nest construct it
+ * providers: [
+ *   { provide: ENVIRONMENT_GUARD_CONFIG, useValue: { currentEnvironment: process.env.NODE_ENV } },
+ *   { provide: APP_GUARD, useClass: EnvironmentGuard },
+ * ]
  */
 @Injectable()
 export class EnvironmentGuard implements CanActivate {
@@ -123,11 +152,13 @@ export class EnvironmentGuard implements CanActivate {
 
   constructor(
     private readonly reflector: Reflector,
-    config: EnvironmentGuardConfig,
+    @Inject(ENVIRONMENT_GUARD_CONFIG) config: EnvironmentGuardConfig,
+    @Optional() private readonly auditor: AuthorizationAuditor = authorizationAudit,
   ) {
     this.config = {
       currentEnvironment: config.currentEnvironment,
       productionIdentifiers: config.productionIdentifiers ?? ['production', 'prod'],
+      testEnvironments: config.testEnvironments ?? [Environment.DEVELOPMENT, Environment.TEST],
       throwOnForbidden: config.throwOnForbidden ?? true,
     };
   }
@@ -135,6 +166,25 @@ export class EnvironmentGuard implements CanActivate {
   canActivate(context: ExecutionContext): boolean {
     const currentEnv = this.config.currentEnvironment.toLowerCase();
 
+    // Check test-only endpoints
+    const testOnly = this.reflector.getAllAndOverride<boolean>(TEST_ONLY_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (testOnly) {
+      const isTestEnvironment = this.config.testEnvironments
+        .map((e) => e.toLowerCase())
+        .includes(currentEnv);
+
+      if (!isTestEnvironment) {
+        return this.handleForbidden(
+          context,
+          `This endpoint is only available in: ${this.config.testEnvironments.join(', ')}`,
+        );
+      }
+    }
+
     // Check allowed environments
     const allowedEnvironments = this.reflector.get<string[]>(
       ALLOWED_ENVIRONMENTS_KEY,
@@ -148,6 +198,7 @@ export class EnvironmentGuard implements CanActivate {
 
       if (!isAllowed) {
         return this.handleForbidden(
+          context,
           `This endpoint is only available in: ${allowedEnvironments.join(', ')}`,
         );
       }
@@ -166,11 +217,16 @@ export class EnvironmentGuard implements CanActivate {
 
       if (isBlocked) {
         return this.handleForbidden(
+          context,
           `This endpoint is not available in: ${currentEnv}`,
         );
       }
     }
 
+    if (testOnly || allowedEnvironments?.length || blockedEnvironments?.length) {
+      this.audit(context, 'allow');
+    }
+
     return true;
   }
 
@@ -178,16 +234,93 @@ export class EnvironmentGuard implements CanActivate {
    * Check if current environment is production
    */
   isProduction(): boolean {
-    const currentEnv = this.config.currentEnvironment.toLowerCase();
-    return this.config.productionIdentifiers
-      .map((id) => id.toLowerCase())
-      .includes(currentEnv);
+    return isProductionEnvironment(this.config);
   }
 
-  private handleForbidden(message: string): boolean {
+  private handleForbidden(context: ExecutionContext, message: string): boolean {
+    this.audit(context, 'deny', message);
+
     if (this.config.throwOnForbidden) {
       throw new ForbiddenException(message);
     }
     return false;
   }
+
+  private audit(context: ExecutionContext, decision: AuthorizationDecision, reason?: string): void {
+    void this.auditor.record(context.switchToHttp().getRequest<Request>(), {
+      guard: EnvironmentGuard.name,
+      decision,
+      reason,
+      details: { environment: this.config.currentEnvironment },
+    });
+  }
+}
+
+/**
+ * Check if an environment is production
+ */
+export function isProductionEnvironment(config: EnvironmentGuardConfig): boolean {
+  const currentEnv = config.currentEnvironment.toLowerCase();
+  return (config.productionIdentifiers ?? ['production', 'prod'])
+    .map((id) => id.toLowerCase())
+    .includes(currentEnv);
+}
+
+/**
+ * Thrown at startup when production would serve test-only routes
+ */
+export class TestOnlyRoutesExposedError extends Error {
+  constructor(
+    public readonly environment: string,
+    public readonly routes: RouteManifestEntry[],
+  ) {
+    super(
+      `Refusing to start in ${environment}: test-only routes are reachable without EnvironmentGuard: ` +
+        routes.map((route) => `${route.method} ${route.path}`).join(', '),
+    );
+    this.name = 'TestOnlyRoutesExposedError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+// Whether an EnvironmentGuard instance is registered through app.useGlobalGuards() or APP_GUARD
+function hasGlobalEnvironmentGuard(app: INestApplicationContext): boolean {
+  const globalGuards = app.get(ApplicationConfig, { strict: false }).getGlobalGuards();
+  if (globalGuards.some((guard) => guard instanceof EnvironmentGuard)) return true;
+
+  return [...app.get(ModulesContainer).values()].some((module) =>
+    [...module.providers].some(
+      ([token, wrapper]) =>
+        typeof token === 'string' &&
+        token.startsWith(APP_GUARD) &&
+        wrapper.instance instanceof EnvironmentGuard,
+    ),
+  );
+}
+
+/**
+ * Startup check: in production, every @TestOnly() route must be covered by
+ * EnvironmentGuard, either as a global guard (APP_GUARD or app.useGlobalGuards())
+ * or through @UseGuards()
+ * No-op outside production
+ *
+ * @example
+ * // main.ts
+ * const app = await NestFactory.create(AppModule);
+ * assertTestOnlyRoutesUnreachable(app, { currentEnvironment: process.env.NODE_ENV ?? 'development' });
+ * await app.listen(3000);
+ */
+export function assertTestOnlyRoutesUnreachable(
+  app: INestApplicationContext,
+  config: EnvironmentGuardConfig,
+): void {
+  if (!isProductionEnvironment(config) || hasGlobalEnvironmentGuard(app)) return;
+
+  const exposed = buildRouteManifest(app).routes.filter(
+    (route) => route.testOnly && !route.guards.includes(EnvironmentGuard.name),
+  );
+
+  if (exposed.length) {
+    throw new TestOnlyRoutesExposedError(config.currentEnvironment, exposed);
+  }
 }
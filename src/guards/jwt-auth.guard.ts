@@ -0,0 +1,40 @@
+/**
+ * JWT Authentication Guard
+ *
+ * Passport JWT guard that honors @Public(), so it can be registered as a
+ * global APP_GUARD without locking out health checks and login routes.
+ *
+ * Key Features:
+ * - Extends AuthGuard('jwt') from @nestjs/passport
+ * - Skips authentication when IS_PUBLIC_KEY is set on handler or controller
+ */
+
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { Observable } from 'rxjs';
+import { IS_PUBLIC_KEY } from '../decorators/composite-auth.decorator';
+
+/**
+ * @example
+ * // In app.module.ts
+ * providers: [
+ *   { provide: APP_GUARD, useClass: JwtAuthGuard },
+ *   { provide: APP_GUARD, useClass: ScopesGuard },
+ * ]
+ */
+@Injectable()
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(private readonly reflector: Reflector) {
+    super();
+  }
+
+  override canActivate(context: ExecutionContext): boolean | Promise<boolean> | Observable<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    return isPublic ? true : super.canActivate(context);
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Rate Limit Guard
+ *
+ * Per-route request throttling keyed by user, tenant, client IP or API key,
+ * with fixed or sliding windows and higher quotas per scope.
+ *
+ * Key Features:
+ * - @RateLimit() decorator on handlers or controllers
+ * - Fixed window and sliding window (weighted previous window) algorithms
+ * - Pluggable counter store; in-memory store included
+ * - Per-scope limits resolved through ScopeResolver (admin > manager > user)
+ * - 429 AppError with Retry-After and RateLimit-* headers
+ */
+
+import {
+  applyDecorators,
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Optional,
+  SetMetadata,
+  UseGuards,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiTooManyRequestsResponse } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { createErrorClass } from '../error-handling/app-error';
+import { resolveClientIp, resolveTenantId } from '../decorators/param.decorator';
+import { ScopeResolver, scopeResolver, getGrantedScopes } from '../helpers/scope-resolver';
+
+/**
+ * What requests are counted against
+ * Falls back to the client IP when the key can't be resolved (e.g. anonymous user)
+ */
+export type RateLimitKey =
+  | 'user'
+  | 'tenant'
+  | 'ip'
+  | 'api-key'
+  | ((request: Request) => string | undefined);
+
+export type RateLimitAlgorithm = 'fixed' | 'sliding';
+
+export interface RateLimitOptions {
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+  /** Default: sliding */
+  algorithm?: RateLimitAlgorithm;
+  /** Default: user */
+  key?: RateLimitKey;
+  /** Higher (or lower) limits per scope; the largest satisfied one applies */
+  scopeLimits?: Record<string, number>;
+  /** Share one quota across routes; defaults to Controller.handler */
+  bucket?: string;
+}
+
+/**
+ * Counter storage; async so shared stores (e.g. Redis INCR + PEXPIRE) fit
+ */
+export interface RateLimitStore {
+  /** Increment a counter, creating it with the given TTL; returns the new count */
+  increment(key: string, ttlMs: number): number | Promise<number>;
+  get(key: string): number | Promise<number>;
+}
+
+/**
+ * Metadata key for storing rate limit options
+ */
+export const RATE_LIMIT_KEY = 'rateLimit:options';
+
+/**
+ * Injection token for a custom store
+ */
+export const RATE_LIMIT_STORE = 'rateLimit:store';
+
+export const RateLimitExceededError = createErrorClass<{ limit: number; windowMs: number }>(
+  'RateLimitExceeded',
+  {
+    code: 'RATE_LIMIT_EXCEEDED',
+    status: 429,
+    message: 'Rate limit of {limit} requests exceeded',
+    retryable: true,
+  },
+);
+
+/**
+ * In-memory store, for single-instance deployments and tests
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+
+  constructor(private readonly maxKeys = 10000) {}
+
+  increment(key: string, ttlMs: number): number {
+    const now = Date.now();
+    const current = this.counters.get(key);
+
+    if (current && current.expiresAt > now) {
+      current.count++;
+      return current.count;
+    }
+
+    if (this.counters.size >= this.maxKeys) {
+      this.prune(now);
+    }
+
+    this.counters.set(key, { count: 1, expiresAt: now + ttlMs });
+    return 1;
+  }
+
+  get(key: string): number {
+    const current = this.counters.get(key);
+    return current && current.expiresAt > Date.now() ? current.count : 0;
+  }
+
+  reset(): void {
+    this.counters.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, { expiresAt }] of this.counters) {
+      if (expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+/**
+ * Process-wide store, used when none is provided through DI
+ */
+export const rateLimitStore = new InMemoryRateLimitStore();
+
+/**
+ * Rate limit decorator
+ * Place it above @Auth() so the user is authenticated before keying on it
+ *
+ * @example
+ * // 100 requests per minute per user, admins 1000
+ * @RateLimit({ limit: 100, windowMs: 60_000, scopeLimits: { admin: 1000 } })
+ * @Auth(AuthScopes.user)
+ * @Get('reports')
+ * getReports() { ... }
+ *
+ * @example
+ * // Anonymous endpoint, 5 attempts per 15 minutes per IP, fixed window
+ * @RateLimit({ limit: 5, windowMs: 15 * 60_000, key: 'ip', algorithm: 'fixed' })
+ * @Public()
+ * @Post('login')
+ * login() { ... }
+ */
+export function RateLimit(options: RateLimitOptions) {
+  return applyDecorators(
+    SetMetadata(RATE_LIMIT_KEY, options),
+    UseGuards(RateLimitGuard),
+    ApiTooManyRequestsResponse({ description: 'Too Many Requests - Rate limit exceeded' }),
+  );
+}
+
+interface RateLimitedRequest extends Request {
+  context?: { user?: { id?: string; roles?: string[] } };
+  user?: { id?: string; sub?: string; roles?: string[] };
+}
+
+/**
+ * Rate limit guard implementation, applied by @RateLimit()
+ *
+ * @example
+ * // Shared store across instances, in app.module.ts
+ * providers: [{ provide: RATE_LIMIT_STORE, useClass: RedisRateLimitStore }]
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional() @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore = rateLimitStore,
+    @Optional() private readonly resolver: ScopeResolver = scopeResolver,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(RATE_LIMIT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RateLimitedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    const bucket = options.bucket ?? `${context.getClass().name}.${context.getHandler().name}`;
+    const key = `${bucket}:${this.resolveKey(request, options.key ?? 'user')}`;
+    const limit = this.resolveLimit(request, options);
+
+    const { windowMs } = options;
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    // Previous window kept for the sliding estimate
+    let count = await this.store.increment(`${key}:${windowStart}`, windowMs * 2);
+
+    if ((options.algorithm ?? 'sliding') === 'sliding') {
+      const previous = await this.store.get(`${key}:${windowStart - windowMs}`);
+      count += Math.floor(previous * (1 - (now - windowStart) / windowMs));
+    }
+
+    const resetSeconds = Math.ceil((windowStart + windowMs - now) / 1000);
+
+    response.setHeader('RateLimit-Limit', String(limit));
+    response.setHeader('RateLimit-Remaining', String(Math.max(0, limit - count)));
+    response.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (count > limit) {
+      response.setHeader('Retry-After', String(resetSeconds));
+      throw new RateLimitExceededError({ limit, windowMs }).setRetryable(true, resetSeconds);
+    }
+
+    return true;
+  }
+
+  private resolveKey(request: RateLimitedRequest, key: RateLimitKey): string {
+    const value = typeof key === 'function' ? key(request) : this.keyValue(request, key);
+    const name = typeof key === 'function' ? 'custom' : key;
+
+    return value ? `${name}:${value}` : `ip:${resolveClientIp(request)}`;
+  }
+
+  private keyValue(request: RateLimitedRequest, key: Exclude<RateLimitKey, Function>): string | undefined {
+    switch (key) {
+      case 'user': {
+        const user = request.context?.user ?? request.user;
+        return user?.id ?? request.user?.sub;
+      }
+      case 'tenant':
+        return resolveTenantId(request);
+      case 'api-key': {
+        const apiKey = request.headers['x-api-key'];
+        const value = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+        // Never keep raw keys in the store
+        return value && createHash('sha256').update(value).digest('hex').slice(0, 16);
+      }
+      case 'ip':
+        return resolveClientIp(request);
+    }
+  }
+
+  private resolveLimit(request: RateLimitedRequest, options: RateLimitOptions): number {
+    const user = request.context?.user ?? request.user;
+    if (!user || !options.scopeLimits) return options.limit;
+
+    const granted = getGrantedScopes(user);
+    const limits = Object.entries(options.scopeLimits)
+      .filter(([scope]) => this.resolver.satisfies(granted, scope))
+      .map(([, limit]) => limit);
+
+    return limits.length ? Math.max(...limits) : options.limit;
+  }
+}
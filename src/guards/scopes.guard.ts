@@ -0,0 +1,126 @@
+/**
+ * Scopes Guard
+ *
+ * Enforces the scopes declared with @Auth() against the authenticated user.
+ * Applied automatically by @Auth(); can also be registered globally.
+ *
+ * Key Features:
+ * - Reads SCOPES_KEY from handler and controller metadata
+ * - Per-strategy scopes override them for the authenticating strategy
+ * - Any-of (default) and all-of matching
+ * - Grants from user roles and the token's scope claims
+ * - Hierarchy and wildcard permissions via ScopeResolver
+ * - Decisions recorded by the authorization audit log
+ * - Skips @Public() routes
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Optional,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { IS_PUBLIC_KEY, SCOPES_KEY } from '../decorators/composite-auth.decorator';
+import { ScopedUser, ScopeResolver, scopeResolver, getGrantedScopes } from '../helpers/scope-resolver';
+import { AuthorizationAuditor, authorizationAudit } from '../audit/authorization-audit';
+import { AUTH_STRATEGIES_KEY, AuthStrategy, AuthStrategyConfig } from './strategy-auth.guard';
+
+/**
+ * How required scopes are matched
+ */
+export type ScopesMode = 'any' | 'all';
+
+export const SCOPES_MODE_KEY = 'auth:scopesMode';
+
+/**
+ * Decorator to set the matching mode of @Auth() scopes
+ *
+ * @example
+ * @Auth(AuthScopes.manager, AuthScopes.readonly)
+ * @ScopesMode('all')
+ * @Get('reports')
+ * getReports() { ... }
+ */
+export function ScopesMode(mode: ScopesMode) {
+  return SetMetadata(SCOPES_MODE_KEY, mode);
+}
+
+interface ScopedRequest extends Request {
+  context?: { user?: ScopedUser; authStrategy?: AuthStrategy };
+  user?: ScopedUser;
+}
+
+/**
+ * Check granted scopes against required ones, expanding the hierarchy
+ */
+export function hasRequiredScopes(
+  granted: readonly string[],
+  required: readonly string[],
+  mode: ScopesMode = 'any',
+  resolver: ScopeResolver = scopeResolver,
+): boolean {
+  if (!required.length) return true;
+
+  return mode === 'all' ? resolver.hasAll(granted, required) : resolver.hasAny(granted, required);
+}
+
+/**
+ * Scopes guard implementation
+ *
+ * @example
+ * // Applied by @Auth(), or globally in app.module.ts
+ * providers: [{ provide: APP_GUARD, useClass: ScopesGuard }]
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional() private readonly resolver: ScopeResolver = scopeResolver,
+    @Optional() private readonly auditor: AuthorizationAuditor = authorizationAudit,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<ScopedRequest>();
+    const strategy = this.reflector
+      .getAllAndOverride<AuthStrategyConfig[]>(AUTH_STRATEGIES_KEY, targets)
+      ?.find((config) => config.strategy === request.context?.authStrategy);
+
+    const required =
+      strategy?.scopes ?? this.reflector.getAllAndOverride<string[]>(SCOPES_KEY, targets);
+    if (!required?.length) {
+      return true;
+    }
+
+    const user = request.context?.user ?? request.user;
+
+    const audit = { guard: ScopesGuard.name, requiredScopes: required };
+
+    if (!user) {
+      const reason = 'Authentication is required';
+      void this.auditor.record(request, { ...audit, decision: 'deny', reason });
+      throw new UnauthorizedException(reason);
+    }
+
+    const mode = this.reflector.getAllAndOverride<ScopesMode>(SCOPES_MODE_KEY, targets) ?? 'any';
+
+    if (!hasRequiredScopes(getGrantedScopes(user), required, mode, this.resolver)) {
+      const reason = `Requires ${mode === 'all' ? 'all' : 'one'} of scopes: ${required.join(', ')}`;
+      void this.auditor.record(request, { ...audit, decision: 'deny', reason });
+      throw new ForbiddenException(reason);
+    }
+
+    void this.auditor.record(request, { ...audit, decision: 'allow' });
+    return true;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Multi-Strategy Authentication Guard
+ *
+ * Tries each passport strategy allowed on a route (JWT, API key, internal
+ * service JWT) and records which one authenticated the request.
+ *
+ * Key Features:
+ * - Strategies declared per route through @Auth({ strategies })
+ * - First successful strategy wins, in declaration order
+ * - Authenticating strategy exposed through RequestContextService
+ * - Outcomes recorded by the authorization audit log
+ * - Skips @Public() routes
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard, IAuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
+import { lastValueFrom, isObservable } from 'rxjs';
+import { IS_PUBLIC_KEY } from '../decorators/composite-auth.decorator';
+import { AuthorizationAuditor, authorizationAudit } from '../audit/authorization-audit';
+
+/**
+ * Supported strategies, named after the passport strategies the app registers
+ */
+export type AuthStrategy = 'jwt' | 'api-key' | 'service-jwt';
+
+/**
+ * Strategy with optional scopes that replace the route-level ones
+ */
+export interface AuthStrategyConfig {
+  readonly strategy: AuthStrategy;
+  readonly scopes?: readonly string[];
+}
+
+/**
+ * Metadata key for storing allowed strategies
+ */
+export const AUTH_STRATEGIES_KEY = 'auth:strategies';
+
+/**
+ * Strategies used when a route declares none
+ */
+export const DEFAULT_AUTH_STRATEGIES: readonly AuthStrategyConfig[] = [{ strategy: 'jwt' }];
+
+interface StrategyRequest extends Request {
+  context?: { authStrategy?: AuthStrategy };
+}
+
+/**
+ * Strategy guard implementation, applied by @Auth()
+ *
+ * @example
+ * // Passport strategies registered under the matching names
+ * export class ApiKeyStrategy extends PassportStrategy(HeaderAPIKeyStrategy, 'api-key') { ... }
+ * export class ServiceJwtStrategy extends PassportStrategy(Strategy, 'service-jwt') { ... }
+ */
+@Injectable()
+export class StrategyAuthGuard implements CanActivate {
+  private readonly guards = new Map<AuthStrategy, IAuthGuard>();
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional() private readonly auditor: AuthorizationAuditor = authorizationAudit,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const strategies =
+      this.reflector.getAllAndOverride<AuthStrategyConfig[]>(AUTH_STRATEGIES_KEY, targets) ??
+      DEFAULT_AUTH_STRATEGIES;
+
+    const request = context.switchToHttp().getRequest<StrategyRequest>();
+    let lastError: unknown;
+
+    for (const { strategy } of strategies) {
+      try {
+        const result = this.guardFor(strategy).canActivate(context);
+        const authenticated = isObservable(result) ? await lastValueFrom(result) : await result;
+
+        if (authenticated) {
+          request.context ??= {};
+          request.context.authStrategy = strategy;
+          await this.auditor.record(request, {
+            guard: StrategyAuthGuard.name,
+            decision: 'allow',
+            details: { strategy },
+          });
+          return true;
+        }
+      } catch (err) {
+        lastError = err;
+      }
+    }
+
+    const error = lastError ?? new UnauthorizedException();
+    await this.auditor.record(request, {
+      guard: StrategyAuthGuard.name,
+      decision: 'deny',
+      reason: (error as Error).message ?? 'Authentication failed',
+      details: { strategies: strategies.map(({ strategy }) => strategy) },
+    });
+    throw error;
+  }
+
+  private guardFor(strategy: AuthStrategy): IAuthGuard {
+    let guard = this.guards.get(strategy);
+
+    if (!guard) {
+      const StrategyGuard = AuthGuard(strategy);
+      guard = new StrategyGuard();
+      this.guards.set(strategy, guard);
+    }
+
+    return guard;
+  }
+}
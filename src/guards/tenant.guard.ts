@@ -0,0 +1,298 @@
+/**
+ * Tenant Isolation Guard
+ *
+ * Resolves the tenant of a request from trusted sources, fills
+ * RequestContextService.tenant and rejects cross-tenant requests.
+ *
+ * Key Features:
+ * - Configurable sources: token claim, subdomain, header
+ * - Header/subdomain must agree with the token's tenant
+ * - Without a user, a header tenant needs a matching subdomain
+ * - Cross-tenant access only for super-admins on opted-in routes, always reported
+ * - Decisions recorded by the authorization audit log
+ * - Optional tenant loader for name/config lookup
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  Optional,
+  SetMetadata,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { TenantContext } from '../context/request-context.service';
+import { AppError, createErrorClass } from '../error-handling/app-error';
+import { AuthorizationAuditor, authorizationAudit } from '../audit/authorization-audit';
+import { ScopeResolver, scopeResolver, getGrantedScopes } from '../helpers/scope-resolver';
+
+/**
+ * Where a tenant id can come from
+ */
+export type TenantSource = 'token' | 'subdomain' | 'header';
+
+/**
+ * Reported whenever a super-admin acts on another tenant
+ */
+export interface CrossTenantAccessEvent {
+  readonly userId?: string;
+  readonly homeTenantId?: string;
+  readonly tenantId: string;
+  readonly source: TenantSource;
+  readonly method: string;
+  readonly path: string;
+}
+
+export interface TenantGuardOptions {
+  /** Sources in priority order (default: token, header) */
+  sources?: TenantSource[];
+  /** Header carrying the requested tenant (default: x-tenant-id) */
+  header?: string;
+  /** Token claim carrying the tenant, checked after user.tenantId (default: tid) */
+  claim?: string;
+  /** Base domain for subdomain resolution, e.g. 'example.com' */
+  baseDomain?: string;
+  /** Scope that permits cross-tenant access on opted-in routes (default: tenants:cross) */
+  crossTenantScope?: string;
+  /** Load the tenant; returning undefined rejects the request */
+  loadTenant?: (
+    tenantId: string,
+    moduleRef: ModuleRef,
+  ) => TenantContext | undefined | Promise<TenantContext | undefined>;
+  /** Audit hook for cross-tenant access (default: warning log) */
+  onCrossTenantAccess?: (event: CrossTenantAccessEvent) => void;
+}
+
+export interface TenantScopedOptions {
+  /** Let holders of the cross-tenant scope act on other tenants */
+  allowCrossTenant?: boolean;
+  /** Reject requests without a tenant (default: true) */
+  required?: boolean;
+}
+
+/**
+ * Injection token for TenantGuard options
+ */
+export const TENANT_OPTIONS = 'tenant:options';
+
+/**
+ * Metadata key for tenant-scoped routes
+ */
+export const TENANT_SCOPED_KEY = 'tenant:scoped';
+
+export const TenantRequiredError = createErrorClass('TenantRequired', {
+  code: 'TENANT_REQUIRED',
+  status: 400,
+  message: 'A tenant is required for this request',
+});
+
+export const TenantMismatchError = createErrorClass<{ tenantId: string; source: TenantSource }>(
+  'TenantMismatch',
+  { code: 'TENANT_MISMATCH', status: 403, message: 'Access to tenant {tenantId} is not allowed' },
+);
+
+export const TenantNotFoundError = createErrorClass<{ tenantId: string }>('TenantNotFound', {
+  code: 'TENANT_NOT_FOUND',
+  status: 404,
+  message: 'Tenant {tenantId} not found',
+});
+
+/**
+ * Mark a controller or route as tenant-scoped, enforced by TenantGuard
+ *
+ * @example
+ * @Auth(AuthScopes.user)
+ * @TenantScoped()
+ * @Get('invoices')
+ * listInvoices(@GetTenantId() tenantId: string) { ... }
+ *
+ * @example
+ * // Support tooling: super-admins may pass x-tenant-id for any tenant
+ * @Auth(AuthScopes.admin)
+ * @TenantScoped({ allowCrossTenant: true })
+ * @Get('support/invoices')
+ * listAnyInvoices(@GetTenantId() tenantId: string) { ... }
+ */
+export function TenantScoped(options: TenantScopedOptions = {}) {
+  return SetMetadata(TENANT_SCOPED_KEY, options);
+}
+
+interface TenantUser {
+  id?: string;
+  tenantId?: string;
+  roles?: string[];
+  [claim: string]: unknown;
+}
+
+interface TenantRequest extends Request {
+  context?: { user?: TenantUser; tenant?: TenantContext };
+  user?: TenantUser;
+}
+
+/**
+ * Tenant guard implementation
+ * Applied by @Auth() after authentication; only acts on @TenantScoped() routes
+ *
+ * @example
+ * // In app.module.ts
+ * providers: [
+ *   {
+ *     provide: TENANT_OPTIONS,
+ *     useValue: {
+ *       sources: ['token', 'subdomain', 'header'],
+ *       baseDomain: 'example.com',
+ *       loadTenant: (id, moduleRef) => moduleRef.get(TenantsService, { strict: false }).findById(id),
+ *     },
+ *   },
+ * ]
+ */
+@Injectable()
+export class TenantGuard implements CanActivate {
+  private readonly logger = new Logger(TenantGuard.name);
+  private readonly options: Required<Omit<TenantGuardOptions, 'baseDomain' | 'loadTenant'>> &
+    Pick<TenantGuardOptions, 'baseDomain' | 'loadTenant'>;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef,
+    @Optional() @Inject(TENANT_OPTIONS) options: TenantGuardOptions = {},
+    @Optional() private readonly resolver: ScopeResolver = scopeResolver,
+    @Optional() private readonly auditor: AuthorizationAuditor = authorizationAudit,
+  ) {
+    this.options = {
+      sources: options.sources ?? ['token', 'header'],
+      header: (options.header ?? 'x-tenant-id').toLowerCase(),
+      claim: options.claim ?? 'tid',
+      crossTenantScope: options.crossTenantScope ?? 'tenants:cross',
+      baseDomain: options.baseDomain,
+      loadTenant: options.loadTenant,
+      onCrossTenantAccess:
+        options.onCrossTenantAccess ??
+        ((event) => this.logger.warn(`Cross-tenant access: ${JSON.stringify(event)}`)),
+    };
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const scoped = this.reflector.getAllAndOverride<TenantScopedOptions>(TENANT_SCOPED_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!scoped) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<TenantRequest>();
+    const user = request.context?.user ?? request.user;
+    const homeTenantId = user ? this.fromToken(user) : undefined;
+
+    const resolved = this.options.sources
+      .map((source) => ({ source, tenantId: this.fromSource(source, request, user) }))
+      .filter((entry): entry is { source: TenantSource; tenantId: string } => !!entry.tenantId);
+
+    // Every untrusted source must agree with the token, unless cross-tenant access applies
+    const untrusted = resolved.filter((entry) => entry.source !== 'token');
+    const requested = untrusted[0];
+    const conflicting = untrusted.find((entry) => entry.tenantId !== requested?.tenantId);
+
+    if (conflicting) {
+      throw await this.reject(request, new TenantMismatchError(conflicting));
+    }
+
+    // Anyone can send the header: without a token, only the subdomain can back it up
+    if (!user && requested && !resolved.some((entry) => entry.source !== 'header')) {
+      throw await this.reject(request, new TenantMismatchError(requested));
+    }
+
+    const crossTenant = !!user && !!requested && requested.tenantId !== homeTenantId;
+
+    if (crossTenant && requested) {
+      if (!scoped.allowCrossTenant || !this.isCrossTenantUser(user)) {
+        throw await this.reject(request, new TenantMismatchError(requested));
+      }
+
+      this.options.onCrossTenantAccess({
+        userId: user?.id,
+        homeTenantId,
+        tenantId: requested.tenantId,
+        source: requested.source,
+        method: request.method,
+        path: request.originalUrl ?? request.url,
+      });
+    }
+
+    const target = crossTenant ? requested : resolved[0];
+
+    if (!target) {
+      if (scoped.required ?? true) {
+        throw await this.reject(request, new TenantRequiredError());
+      }
+      return true;
+    }
+
+    const tenant = this.options.loadTenant
+      ? await this.options.loadTenant(target.tenantId, this.moduleRef)
+      : { id: target.tenantId, name: target.tenantId };
+
+    if (!tenant) {
+      throw await this.reject(request, new TenantNotFoundError({ tenantId: target.tenantId }));
+    }
+
+    request.context ??= {};
+    request.context.tenant = tenant;
+
+    await this.auditor.record(request, {
+      guard: TenantGuard.name,
+      decision: 'allow',
+      details: { ...target, crossTenant },
+    });
+    return true;
+  }
+
+  private async reject(request: TenantRequest, error: AppError): Promise<AppError> {
+    await this.auditor.record(request, {
+      guard: TenantGuard.name,
+      decision: 'deny',
+      reason: error.message,
+      details: { code: error.code, ...(error.data as Record<string, unknown> | undefined) },
+    });
+    return error;
+  }
+
+  private fromSource(
+    source: TenantSource,
+    request: TenantRequest,
+    user: TenantUser | undefined,
+  ): string | undefined {
+    switch (source) {
+      case 'token':
+        return user ? this.fromToken(user) : undefined;
+      case 'header': {
+        const value = request.headers[this.options.header];
+        return (Array.isArray(value) ? value[0] : value) || undefined;
+      }
+      case 'subdomain':
+        return this.fromSubdomain(request.hostname);
+    }
+  }
+
+  private fromToken(user: TenantUser): string | undefined {
+    const claim = user.tenantId ?? user[this.options.claim];
+    return typeof claim === 'string' && claim ? claim : undefined;
+  }
+
+  private fromSubdomain(hostname: string | undefined): string | undefined {
+    const { baseDomain } = this.options;
+    if (!hostname || !baseDomain || !hostname.endsWith(`.${baseDomain}`)) return undefined;
+
+    const labels = hostname.slice(0, -(baseDomain.length + 1)).split('.');
+    return labels[labels.length - 1] || undefined;
+  }
+
+  private isCrossTenantUser(user: TenantUser | undefined): boolean {
+    return !!user && this.resolver.satisfies(getGrantedScopes(user), this.options.crossTenantScope);
+  }
+}
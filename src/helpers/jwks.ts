@@ -0,0 +1,196 @@
+/**
+ * JWKS Key Resolution
+ *
+ * Resolves JWT verification keys from a JSON Web Key Set by the token
+ * header's `kid`, so signing keys can be rotated without coordinated deploys.
+ *
+ * Key Features:
+ * - Local JWKS documents, JWKS files and HTTP JWKS endpoints
+ * - Injectable key providers (JWKS_PROVIDER token)
+ * - Several keys valid at once during a rotation window
+ * - Provider results cached with a TTL; unknown `kid` triggers a throttled refetch
+ * - Stale keys kept when the provider is unreachable
+ * - RSA, EC, OKP and symmetric (oct) keys via Node's KeyObject
+ */
+
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { createPublicKey, createSecretKey, JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+
+/**
+ * JSON Web Key with the JOSE metadata used for selection
+ */
+export interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+/**
+ * JSON Web Key Set document
+ */
+export interface JsonWebKeySet {
+  keys: Jwk[];
+}
+
+/**
+ * Source of the current key set
+ */
+export interface JwksProvider {
+  getKeySet(): JsonWebKeySet | Promise<JsonWebKeySet>;
+}
+
+/**
+ * Injection token for the application's key provider
+ */
+export const JWKS_PROVIDER = 'jwt:jwksProvider';
+
+export interface JwksResolverOptions {
+  /** How long a fetched key set is used before refetching (default: 10 min) */
+  cacheTtlMs?: number;
+  /** Minimum delay between refetches caused by an unknown kid (default: 30 s) */
+  refetchIntervalMs?: number;
+}
+
+/**
+ * Key set given inline, e.g. from configuration
+ */
+export class StaticJwksProvider implements JwksProvider {
+  constructor(private readonly keySet: JsonWebKeySet) {}
+
+  getKeySet(): JsonWebKeySet {
+    return this.keySet;
+  }
+}
+
+/**
+ * Key set read from a local JWKS file
+ */
+export class FileJwksProvider implements JwksProvider {
+  constructor(private readonly path: string) {}
+
+  async getKeySet(): Promise<JsonWebKeySet> {
+    return JSON.parse(await readFile(this.path, 'utf8')) as JsonWebKeySet;
+  }
+}
+
+/**
+ * Key set fetched from a JWKS endpoint (e.g. /.well-known/jwks.json)
+ */
+export class HttpJwksProvider implements JwksProvider {
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs = 5000,
+  ) {}
+
+  async getKeySet(): Promise<JsonWebKeySet> {
+    const response = await fetch(this.url, { signal: AbortSignal.timeout(this.timeoutMs) });
+
+    if (!response.ok) {
+      throw new Error(`JWKS request to ${this.url} failed with status ${response.status}`);
+    }
+
+    return (await response.json()) as JsonWebKeySet;
+  }
+}
+
+/**
+ * Convert a JWK into a key usable by jsonwebtoken
+ */
+export function jwkToKeyObject(jwk: Jwk): KeyObject {
+  if (jwk.kty === 'oct') {
+    return createSecretKey(Buffer.from(jwk.k ?? '', 'base64url'));
+  }
+
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/**
+ * Key resolver with caching
+ *
+ * @example
+ * // Local JWKS document, both keys valid during rotation
+ * const resolver = new JwksResolver({ keys: [currentKey, previousKey] });
+ * const payload = await jwtHelper.verifyWithKeySet(token, resolver, { algorithms: ['RS256'] });
+ *
+ * @example
+ * // Identity provider endpoint, in app.module.ts
+ * providers: [
+ *   { provide: JWKS_PROVIDER, useValue: new HttpJwksProvider('https://idp.example.com/.well-known/jwks.json') },
+ *   JwksResolver,
+ * ]
+ */
+@Injectable()
+export class JwksResolver {
+  private readonly provider: JwksProvider;
+  private readonly cacheTtlMs: number;
+  private readonly refetchIntervalMs: number;
+
+  private keys: { jwk: Jwk; key: KeyObject }[] = [];
+  private fetchedAt = 0;
+  private pending?: Promise<void>;
+
+  constructor(
+    @Inject(JWKS_PROVIDER) source: JwksProvider | JsonWebKeySet,
+    @Optional() options: JwksResolverOptions = {},
+  ) {
+    this.provider = 'keys' in source ? new StaticJwksProvider(source) : source;
+    this.cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000;
+    this.refetchIntervalMs = options.refetchIntervalMs ?? 30 * 1000;
+  }
+
+  /**
+   * Candidate keys for a token header
+   * With a `kid`, the matching key; without one, every key allowed for the algorithm
+   */
+  async resolve(kid: string | undefined, alg?: string): Promise<KeyObject[]> {
+    if (Date.now() - this.fetchedAt > this.cacheTtlMs) {
+      await this.refresh();
+    }
+
+    let candidates = this.match(kid, alg);
+
+    // A new kid usually means the issuer rotated keys since the last fetch
+    if (!candidates.length && kid && Date.now() - this.fetchedAt > this.refetchIntervalMs) {
+      await this.refresh();
+      candidates = this.match(kid, alg);
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Drop the cached key set
+   */
+  clear(): void {
+    this.keys = [];
+    this.fetchedAt = 0;
+  }
+
+  private match(kid: string | undefined, alg: string | undefined): KeyObject[] {
+    return this.keys
+      .filter(({ jwk }) => (kid ? jwk.kid === kid : true))
+      .filter(({ jwk }) => !alg || !jwk.alg || jwk.alg === alg)
+      .filter(({ jwk }) => !jwk.use || jwk.use === 'sig')
+      .map(({ key }) => key);
+  }
+
+  // Concurrent callers share one fetch
+  private refresh(): Promise<void> {
+    this.pending ??= (async () => {
+      try {
+        const { keys } = await this.provider.getKeySet();
+        this.keys = keys.map((jwk) => ({ jwk, key: jwkToKeyObject(jwk) }));
+        this.fetchedAt = Date.now();
+      } catch (err) {
+        if (!this.keys.length) throw err;
+        // Provider outage: keep the stale keys, retry after the refetch interval
+        this.fetchedAt = Date.now() - this.cacheTtlMs + this.refetchIntervalMs;
+      } finally {
+        this.pending = undefined;
+      }
+    })();
+
+    return this.pending;
+  }
+}
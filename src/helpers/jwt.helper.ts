@@ -5,20 +5,56 @@
  * Supports multiple algorithms and provides typed error handling.
  *
  * Key Features:
- * - Multiple algorithm support (HS256, HS512, RS256)
+ * - HMAC, RSA, RSA-PSS, ECDSA and EdDSA algorithm families
+ * - PEM, JWK and KeyObject keys, checked against the algorithm
  * - Type-safe token payload interface
  * - Custom error types for different failure scenarios
+ * - Key set (JWKS) verification by `kid`, for key rotation
+ * - Optional revocation list check (JwtRevokedError)
+ * - Typed claim schemas (class-validator DTOs) and claim predicates
  * - Bearer token stripping utility
  * - Token comparison for validation
  */
 
-import { Injectable } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
+import {
+  createPrivateKey,
+  createPublicKey,
+  createSecretKey,
+  KeyObject,
+  sign as signBytes,
+  verify as verifyBytes,
+} from 'crypto';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
 import * as jwt from 'jsonwebtoken';
+import { extractConstraints, ValidationErrorDetail } from '../decorators/validate-input';
+import { deepEqual } from '../utils/utils.helper';
+import { Jwk, JsonWebKeySet, JwksResolver } from './jwks';
+import { TokenRevocationList } from './token-revocation';
 
 /**
  * Supported JWT algorithms
  */
-export type JwtAlgorithm = 'HS256' | 'HS512' | 'RS256' | 'RS384' | 'RS512';
+export type JwtAlgorithm =
+  | 'HS256'
+  | 'HS384'
+  | 'HS512'
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'PS256'
+  | 'PS384'
+  | 'PS512'
+  | 'ES256'
+  | 'ES384'
+  | 'ES512'
+  | 'EdDSA';
+
+/**
+ * Signing or verification key: HMAC secret, PEM, JWK or KeyObject
+ */
+export type JwtKey = string | Buffer | KeyObject | Jwk;
 
 /**
  * JWT payload interface with common claims
@@ -60,12 +96,25 @@ export interface JwtGenerateOptions {
   subject?: string;
   /** JWT ID */
   jwtid?: string;
+  /** Key ID written to the header, for JWKS verification */
+  keyId?: string;
 }
 
 /**
  * Options for JWT verification
  */
-export interface JwtVerifyOptions {
+/**
+ * Expected claim values: compared structurally (object key order ignored, arrays by position),
+ * or tested with a ClaimMatch predicate
+ */
+export type JwtClaimMatchers = Record<string, unknown>;
+
+/**
+ * Token use carried in the `typ` claim; tokens without it count as access tokens
+ */
+export type JwtTokenUse = 'access' | 'refresh';
+
+export interface JwtVerifyOptions<T extends object = JwtPayload> {
   /** Allowed algorithms */
   algorithms?: JwtAlgorithm[];
   /** Expected issuer */
@@ -76,6 +125,12 @@ export interface JwtVerifyOptions {
   clockTolerance?: number;
   /** Ignore expiration */
   ignoreExpiration?: boolean;
+  /** Claim schema (class-validator DTO); sync validators only, as verify() is synchronous */
+  schema?: ClassConstructor<T>;
+  /** Required claim values or predicates */
+  claims?: JwtClaimMatchers;
+  /** Expected token use (default: access); `typ: 'refresh'` tokens pass only as refresh */
+  tokenUse?: JwtTokenUse;
 }
 
 /**
@@ -120,15 +175,168 @@ export class JwtInvalidSignatureError extends JwtError {
   }
 }
 
+export class JwtInvalidKeyError extends JwtError {
+  constructor(algorithm: string, reason: string) {
+    super(`Key cannot be used with ${algorithm}: ${reason}`, 'JWT_INVALID_KEY');
+    this.name = 'JwtInvalidKeyError';
+  }
+}
+
+export class JwtRevokedError extends JwtError {
+  constructor() {
+    super('JWT token has been revoked', 'JWT_REVOKED');
+    this.name = 'JwtRevokedError';
+  }
+}
+
+export class JwtUnknownKeyError extends JwtError {
+  constructor(kid?: string) {
+    super(`No verification key found${kid ? ` for kid ${kid}` : ''}`, 'JWT_UNKNOWN_KEY');
+    this.name = 'JwtUnknownKeyError';
+  }
+}
+
 export class JwtValidationError extends JwtError {
-  constructor(reason: string) {
+  constructor(
+    reason: string,
+    /** Per-claim failures from a claim schema or claim matchers */
+    public readonly claims?: Record<string, ValidationErrorDetail>,
+  ) {
     super(`JWT validation failed: ${reason}`, 'JWT_VALIDATION_FAILED');
     this.name = 'JwtValidationError';
   }
 }
 
+// Asymmetric key types accepted per algorithm family
+const ASYMMETRIC_KEY_TYPES: Record<string, string[]> = {
+  RS: ['rsa'],
+  PS: ['rsa', 'rsa-pss'],
+  ES: ['ec'],
+  Ed: ['ed25519', 'ed448'],
+};
+
+const EC_CURVES: Partial<Record<JwtAlgorithm, string>> = {
+  ES256: 'prime256v1',
+  ES384: 'secp384r1',
+  ES512: 'secp521r1',
+};
+
+const isJwk = (key: JwtKey): key is Jwk =>
+  typeof key === 'object' && !Buffer.isBuffer(key) && !(key instanceof KeyObject);
+
+function parseKey(key: Exclude<JwtKey, KeyObject>, algorithm: JwtAlgorithm, use: 'sign' | 'verify'): KeyObject {
+  if (algorithm.startsWith('HS')) {
+    if (isJwk(key)) {
+      if (key.kty !== 'oct') throw new JwtInvalidKeyError(algorithm, `${key.kty} JWK is not a secret`);
+      return createSecretKey(Buffer.from(key.k ?? '', 'base64url'));
+    }
+    // A public key used as an HMAC secret is the classic algorithm-confusion attack
+    if (key.toString().includes('-----BEGIN')) {
+      throw new JwtInvalidKeyError(algorithm, 'PEM keys cannot be HMAC secrets');
+    }
+    return createSecretKey(typeof key === 'string' ? Buffer.from(key) : key);
+  }
+
+  const input = isJwk(key) ? { key, format: 'jwk' as const } : key;
+  return use === 'sign' ? createPrivateKey(input) : createPublicKey(input);
+}
+
+/**
+ * Convert a key to a KeyObject and check it matches the algorithm
+ * Verification accepts private keys and uses their public half
+ */
+export function toJwtKeyObject(key: JwtKey, algorithm: JwtAlgorithm, use: 'sign' | 'verify'): KeyObject {
+  let keyObject: KeyObject;
+  try {
+    keyObject = key instanceof KeyObject ? key : parseKey(key, algorithm, use);
+  } catch (err) {
+    if (err instanceof JwtError) throw err;
+    throw new JwtInvalidKeyError(algorithm, (err as Error).message);
+  }
+
+  if (use === 'verify' && keyObject.type === 'private') {
+    keyObject = createPublicKey(keyObject);
+  }
+
+  if (algorithm.startsWith('HS')) {
+    if (keyObject.type !== 'secret') {
+      throw new JwtInvalidKeyError(algorithm, `${keyObject.type} key is not an HMAC secret`);
+    }
+    return keyObject;
+  }
+
+  const expectedType = use === 'sign' ? 'private' : 'public';
+  if (keyObject.type !== expectedType) {
+    throw new JwtInvalidKeyError(algorithm, `expected a ${expectedType} key, got ${keyObject.type}`);
+  }
+
+  const keyType = keyObject.asymmetricKeyType ?? '';
+  if (!ASYMMETRIC_KEY_TYPES[algorithm.slice(0, 2)]?.includes(keyType)) {
+    throw new JwtInvalidKeyError(algorithm, `${keyType} keys are not supported`);
+  }
+
+  const curve = EC_CURVES[algorithm];
+  if (curve && keyObject.asymmetricKeyDetails?.namedCurve !== curve) {
+    throw new JwtInvalidKeyError(algorithm, `requires curve ${curve}`);
+  }
+
+  return keyObject;
+}
+
+/**
+ * Named claim test, reported in JwtValidationError.claims on failure
+ */
+export class ClaimPredicate {
+  constructor(
+    readonly name: string,
+    readonly message: string,
+    readonly test: (value: unknown, payload: JwtPayload) => boolean,
+  ) {}
+}
+
+// Arrays as-is, space-delimited strings (OAuth `scope`) split
+const asList = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : typeof value === 'string' ? value.split(' ') : [value];
+
+/**
+ * Claim predicates for JwtVerifyOptions.claims and verifyAndCompare()
+ *
+ * @example
+ * jwtHelper.verify(token, secret, {
+ *   claims: {
+ *     scope: ClaimMatch.includes('orders:write'),
+ *     aud: ClaimMatch.oneOf(['orders-api', 'admin-api']),
+ *     email_verified: true,
+ *   },
+ * });
+ */
+export const ClaimMatch = {
+  equals: (expected: unknown) =>
+    new ClaimPredicate('equals', `must equal ${JSON.stringify(expected)}`, (value) => deepEqual(value, expected)),
+  /** Array claim or space-delimited string contains the item */
+  includes: (item: unknown) =>
+    new ClaimPredicate('includes', `must include ${JSON.stringify(item)}`, (value) =>
+      value != null && asList(value).some((entry) => deepEqual(entry, item)),
+    ),
+  /** Claim (or, for arrays such as aud, one of its entries) is one of the values */
+  oneOf: (values: unknown[]) =>
+    new ClaimPredicate('oneOf', `must be one of ${JSON.stringify(values)}`, (value) =>
+      (Array.isArray(value) ? value : [value]).some((entry) => values.some((allowed) => deepEqual(entry, allowed))),
+    ),
+  exists: () => new ClaimPredicate('exists', 'is required', (value) => value != null),
+  matches: (pattern: RegExp) =>
+    new ClaimPredicate('matches', `must match ${pattern}`, (value) => typeof value === 'string' && pattern.test(value)),
+  satisfies: (name: string, test: (value: unknown, payload: JwtPayload) => boolean) =>
+    new ClaimPredicate(name, `must satisfy ${name}`, test),
+};
+
+const base64UrlJson = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
 @Injectable()
 export class JwtHelper {
+  constructor(@Optional() private readonly revocations?: TokenRevocationList) {}
+
   /**
    * Strip "Bearer " prefix from authorization header value
    */
@@ -166,11 +374,11 @@ export class JwtHelper {
   /**
    * Generate a JWT token
    */
-  generate(payload: JwtPayload, secret: string, options: JwtGenerateOptions = {}): string {
-    const { algorithm = 'HS256', expiresIn, issuer, audience, subject, jwtid } = options;
+  generate(payload: JwtPayload, secret: JwtKey, options: JwtGenerateOptions = {}): string {
+    const { algorithm = 'HS256', expiresIn, issuer, audience, subject, jwtid, keyId } = options;
+    const key = toJwtKeyObject(secret, algorithm, 'sign');
 
     const signOptions: jwt.SignOptions = {
-      algorithm,
       ...(expiresIn && { expiresIn }),
       ...(issuer && { issuer }),
       ...(audience && { audience }),
@@ -178,7 +386,11 @@ export class JwtHelper {
       ...(jwtid && { jwtid }),
     };
 
-    return jwt.sign(payload, secret, signOptions);
+    if (algorithm === 'EdDSA') {
+      return this.signEdDSA(payload, key, signOptions, keyId);
+    }
+
+    return jwt.sign(payload, key, { ...signOptions, algorithm, ...(keyId && { keyid: keyId }) });
   }
 
   /**
@@ -198,26 +410,151 @@ export class JwtHelper {
   /**
    * Generate RS256 token (convenience method)
    */
-  generateRS256(payload: JwtPayload, privateKey: string, expiresIn: string | number = '1h'): string {
+  generateRS256(payload: JwtPayload, privateKey: JwtKey, expiresIn: string | number = '1h'): string {
     return this.generate(payload, privateKey, { algorithm: 'RS256', expiresIn });
   }
 
+  /**
+   * Generate PS256 token (convenience method)
+   */
+  generatePS256(payload: JwtPayload, privateKey: JwtKey, expiresIn: string | number = '1h'): string {
+    return this.generate(payload, privateKey, { algorithm: 'PS256', expiresIn });
+  }
+
+  /**
+   * Generate ES256 token (convenience method), P-256 key required
+   */
+  generateES256(payload: JwtPayload, privateKey: JwtKey, expiresIn: string | number = '1h'): string {
+    return this.generate(payload, privateKey, { algorithm: 'ES256', expiresIn });
+  }
+
+  /**
+   * Generate EdDSA token (convenience method), Ed25519 or Ed448 key required
+   */
+  generateEdDSA(payload: JwtPayload, privateKey: JwtKey, expiresIn: string | number = '1h'): string {
+    return this.generate(payload, privateKey, { algorithm: 'EdDSA', expiresIn });
+  }
+
   /**
    * Verify and parse JWT token
-   * Throws typed errors for different failure scenarios
+   * Throws typed errors for different failure scenarios, JwtRevokedError when
+   * a TokenRevocationList is provided and covers the token
+   *
+   * @example
+   * class AccessClaims {
+   *   @IsString() sub: string;
+   *   @IsUUID() tid: string;
+   *   @IsArray() @IsString({ each: true }) roles: string[];
+   * }
+   *
+   * // payload is JwtPayload & AccessClaims; invalid claims throw JwtValidationError with .claims
+   * const payload = jwtHelper.verify(token, secret, { schema: AccessClaims });
+   */
+  verify<T extends object = JwtPayload>(
+    token: string,
+    secret: JwtKey,
+    options: JwtVerifyOptions<T> = {},
+  ): JwtPayload & T {
+    return this.verifyWithKey(token, secret, options);
+  }
+
+  /**
+   * Verify against a key set, picking the key by the token header's `kid`
+   * Tokens without a `kid` are tried against every key allowed for their algorithm
+   *
+   * @example
+   * // During rotation the set holds both the new and the previous key
+   * const resolver = new JwksResolver(new FileJwksProvider('./jwks.json'));
+   * const payload = await jwtHelper.verifyWithKeySet(token, resolver, { algorithms: ['RS256'] });
    */
-  verify(token: string, secret: string, options: JwtVerifyOptions = {}): JwtPayload {
-    const { algorithms = ['HS256'], clockTolerance = 0, ...restOptions } = options;
+  async verifyWithKeySet<T extends object = JwtPayload>(
+    token: string,
+    keySet: JwksResolver | JsonWebKeySet,
+    options: JwtVerifyOptions<T> = {},
+  ): Promise<JwtPayload & T> {
+    const header = this.decodeComplete(token)?.header;
+    if (!header) {
+      throw new JwtMalformedError();
+    }
+
+    const resolver = keySet instanceof JwksResolver ? keySet : new JwksResolver(keySet);
+    const keys = await resolver.resolve(header.kid, header.alg);
+
+    if (!keys.length) {
+      throw new JwtUnknownKeyError(header.kid);
+    }
+
+    let lastError: unknown;
+    for (const key of keys) {
+      try {
+        return this.verifyWithKey(token, key, options);
+      } catch (err) {
+        lastError = err;
+        // Only key mismatches are worth trying the next candidate for
+        if (
+          !(
+            err instanceof JwtInvalidSignatureError ||
+            err instanceof JwtInvalidAlgorithmError ||
+            err instanceof JwtInvalidKeyError
+          )
+        ) {
+          break;
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private verifyWithKey<T extends object>(
+    token: string,
+    key: JwtKey,
+    options: JwtVerifyOptions<T>,
+  ): JwtPayload & T {
+    const {
+      algorithms = ['HS256'],
+      clockTolerance = 0,
+      schema,
+      claims,
+      tokenUse = 'access',
+      ...restOptions
+    } = options;
+    const raw = this.stripBearer(token);
+    const algorithm = this.decodeComplete(raw)?.header.alg as JwtAlgorithm | undefined;
+
+    if (!algorithm) {
+      throw new JwtMalformedError();
+    }
+    // Checked first so an attacker-chosen algorithm never decides how the key is read
+    if (!algorithms.includes(algorithm)) {
+      throw new JwtInvalidAlgorithmError();
+    }
+
+    const keyObject = toJwtKeyObject(key, algorithm, 'verify');
 
     try {
-      const decoded = jwt.verify(this.stripBearer(token), secret, {
-        algorithms,
-        clockTolerance,
-        ...restOptions,
-      });
+      const decoded =
+        algorithm === 'EdDSA'
+          ? this.verifyEdDSA(raw, keyObject, { clockTolerance, ...restOptions })
+          : jwt.verify(raw, keyObject, {
+              algorithms: [algorithm as jwt.Algorithm],
+              clockTolerance,
+              ...restOptions,
+            }) as JwtPayload;
+
+      if (this.revocations?.isRevoked(decoded)) {
+        throw new JwtRevokedError();
+      }
+
+      // Long-lived refresh tokens must never authenticate a request
+      if ((decoded.typ === 'refresh') !== (tokenUse === 'refresh')) {
+        throw new JwtValidationError(`expected ${tokenUse} token`, {
+          typ: { constraints: { tokenUse: `typ must be ${tokenUse}` } },
+        });
+      }
 
-      return decoded as JwtPayload;
+      return this.validateClaims(decoded, schema, claims);
     } catch (err) {
+      if (err instanceof JwtError) throw err;
       if (err instanceof Error) {
         switch (err.message) {
           case 'jwt expired':
@@ -237,28 +574,89 @@ export class JwtHelper {
     }
   }
 
+  // jsonwebtoken has no EdDSA support: sign with node:crypto, let jsonwebtoken build the claims
+  private signEdDSA(
+    payload: JwtPayload,
+    key: KeyObject,
+    options: jwt.SignOptions,
+    keyId?: string,
+  ): string {
+    const claims = jwt.sign(payload, null, { ...options, algorithm: 'none' }).split('.')[1];
+    const header = base64UrlJson({ alg: 'EdDSA', typ: 'JWT', ...(keyId && { kid: keyId }) });
+    const signature = signBytes(null, Buffer.from(`${header}.${claims}`), key);
+
+    return `${header}.${claims}.${signature.toString('base64url')}`;
+  }
+
+  // Signature checked with node:crypto; exp/nbf/iss/aud still validated by jsonwebtoken
+  private verifyEdDSA(token: string, key: KeyObject, options: jwt.VerifyOptions): JwtPayload {
+    const [header, claims, signature] = token.split('.');
+
+    if (!verifyBytes(null, Buffer.from(`${header}.${claims}`), key, Buffer.from(signature ?? '', 'base64url'))) {
+      throw new JwtInvalidSignatureError();
+    }
+
+    // The signature is already verified; the unsigned copy only runs the claim checks
+    const unsigned = `${base64UrlJson({ alg: 'none', typ: 'JWT' })}.${claims}.`;
+    return jwt.verify(unsigned, null as unknown as jwt.Secret, {
+      ...options,
+      algorithms: ['none'],
+    }) as JwtPayload;
+  }
+
+  private validateClaims<T extends object>(
+    payload: JwtPayload,
+    schema: ClassConstructor<T> | undefined,
+    claims: JwtClaimMatchers | undefined,
+  ): JwtPayload & T {
+    const instance = schema ? plainToInstance(schema, payload) : payload;
+    const failures = { ...(schema && extractConstraints(validateSync(instance))) };
+
+    for (const [claim, mismatch] of Object.entries(this.claimMismatches(payload, claims ?? {}))) {
+      const constraints = { ...failures[claim]?.constraints, ...mismatch.constraints };
+      failures[claim] = { ...failures[claim], ...mismatch, constraints };
+    }
+
+    const invalid = Object.keys(failures);
+    if (invalid.length) {
+      throw new JwtValidationError(`invalid claims ${invalid.join(', ')}`, failures);
+    }
+
+    return instance as JwtPayload & T;
+  }
+
+  private claimMismatches(
+    payload: JwtPayload,
+    expectedValues: JwtClaimMatchers,
+  ): Record<string, ValidationErrorDetail> {
+    const mismatches: Record<string, ValidationErrorDetail> = {};
+
+    for (const [claim, expected] of Object.entries(expectedValues)) {
+      const predicate = expected instanceof ClaimPredicate ? expected : ClaimMatch.equals(expected);
+
+      if (!predicate.test(payload[claim], payload)) {
+        mismatches[claim] = {
+          constraints: { [predicate.name]: `${claim} ${predicate.message}` },
+          value: payload[claim],
+        };
+      }
+    }
+
+    return mismatches;
+  }
+
   /**
    * Verify token and compare payload values
-   * Returns true if all provided values match the token payload
+   * Returns true if all provided values (or ClaimMatch predicates) match the token payload
    */
   verifyAndCompare(
     token: string,
-    secret: string,
-    expectedValues: Partial<JwtPayload>,
+    secret: JwtKey,
+    expectedValues: JwtClaimMatchers,
     options: JwtVerifyOptions = {},
   ): boolean {
     const payload = this.verify(token, secret, options);
-
-    for (const [key, expected] of Object.entries(expectedValues)) {
-      const actual = payload[key];
-
-      // Deep equality check for arrays/objects
-      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
-        return false;
-      }
-    }
-
-    return true;
+    return !Object.keys(this.claimMismatches(payload, expectedValues)).length;
   }
 
   /**
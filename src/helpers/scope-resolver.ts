@@ -0,0 +1,157 @@
+/**
+ * Scope Resolver
+ *
+ * Expands granted scopes through a typed hierarchy so higher roles satisfy
+ * lower ones, and matches fine-grained permissions with wildcards.
+ *
+ * Key Features:
+ * - Typed hierarchy definition (scope -> implied scopes/permissions)
+ * - Transitive expansion with cycle protection
+ * - `resource:action` permissions with `resource:*` and `*` wildcards
+ * - Shared by ScopesGuard and RequestContextService
+ * - Granted scopes collected from roles and OAuth2/Azure AD scope claims
+ */
+
+import { Inject, Injectable, Optional } from '@nestjs/common';
+
+/**
+ * Fine-grained permission, e.g. 'orders:read' or 'orders:*'
+ */
+export type Permission = `${string}:${string}`;
+
+/**
+ * Scope hierarchy: each scope lists the scopes and permissions it implies
+ */
+export type ScopeHierarchy<S extends string = string> = {
+  readonly [K in S]?: readonly (S | Permission)[];
+};
+
+/**
+ * Injection token for a custom hierarchy
+ */
+export const SCOPE_HIERARCHY = 'auth:scopeHierarchy';
+
+/**
+ * Identity helper that type-checks implied scopes against the declared ones
+ *
+ * @example
+ * const hierarchy = defineScopeHierarchy<AuthScope>({
+ *   admin: ['manager', 'orders:*'],
+ *   manager: ['user', 'orders:write'],
+ *   user: ['orders:read'],
+ * });
+ */
+export function defineScopeHierarchy<S extends string>(
+  hierarchy: ScopeHierarchy<S>,
+): ScopeHierarchy<S> {
+  return hierarchy;
+}
+
+export const DEFAULT_SCOPE_HIERARCHY: ScopeHierarchy = {
+  admin: ['manager'],
+  manager: ['user'],
+};
+
+/**
+ * Authenticated principal as attached by passport or RequestContextService
+ */
+export interface ScopedUser {
+  roles?: string[];
+  scopes?: string[];
+  /** OAuth2 space-delimited scope claim */
+  scope?: string;
+  /** Azure AD style scope claim */
+  scp?: string | string[];
+}
+
+/**
+ * Collect every scope granted to a user from roles and scope claims
+ */
+export function getGrantedScopes(user: ScopedUser): string[] {
+  const fromClaim = (claim: string | string[] | undefined): string[] =>
+    Array.isArray(claim) ? claim : claim?.split(' ').filter(Boolean) ?? [];
+
+  return [
+    ...new Set([
+      ...(user.roles ?? []),
+      ...(user.scopes ?? []),
+      ...fromClaim(user.scope),
+      ...fromClaim(user.scp),
+    ]),
+  ];
+}
+
+/**
+ * Check whether one granted scope satisfies a required one
+ */
+function grantSatisfies(granted: string, required: string): boolean {
+  if (granted === required || granted === '*') return true;
+
+  if (granted.endsWith(':*')) {
+    return required.startsWith(granted.slice(0, -1));
+  }
+
+  return false;
+}
+
+/**
+ * Scope resolver
+ *
+ * @example
+ * // In app.module.ts, shared by ScopesGuard and RequestContextService
+ * providers: [
+ *   { provide: SCOPE_HIERARCHY, useValue: hierarchy },
+ *   ScopeResolver,
+ * ]
+ *
+ * @example
+ * scopeResolver.hasAny(['admin'], ['user']); // true
+ * scopeResolver.hasAll(['orders:*'], ['orders:read', 'orders:write']); // true
+ */
+@Injectable()
+export class ScopeResolver {
+  // Map, not the object itself: granted scopes come from tokens and could name
+  // prototype members such as 'constructor' or '__proto__'
+  private readonly hierarchy: ReadonlyMap<string, readonly string[] | undefined>;
+
+  constructor(@Optional() @Inject(SCOPE_HIERARCHY) hierarchy?: ScopeHierarchy) {
+    this.hierarchy = new Map(Object.entries(hierarchy ?? DEFAULT_SCOPE_HIERARCHY));
+  }
+
+  /**
+   * Granted scopes plus everything they imply, transitively
+   */
+  expand(granted: Iterable<string>): Set<string> {
+    const expanded = new Set<string>();
+    const pending = [...granted];
+
+    while (pending.length) {
+      const scope = pending.pop() as string;
+      if (expanded.has(scope)) continue;
+
+      expanded.add(scope);
+      pending.push(...(this.hierarchy.get(scope) ?? []));
+    }
+
+    return expanded;
+  }
+
+  satisfies(granted: Iterable<string>, required: string): boolean {
+    return [...this.expand(granted)].some((scope) => grantSatisfies(scope, required));
+  }
+
+  hasAny(granted: Iterable<string>, required: readonly string[]): boolean {
+    const expanded = [...this.expand(granted)];
+    return required.some((scope) => expanded.some((g) => grantSatisfies(g, scope)));
+  }
+
+  hasAll(granted: Iterable<string>, required: readonly string[]): boolean {
+    const expanded = [...this.expand(granted)];
+    return required.every((scope) => expanded.some((g) => grantSatisfies(g, scope)));
+  }
+}
+
+/**
+ * Default resolver, used when none is provided through DI
+ */
+export const scopeResolver = new ScopeResolver();
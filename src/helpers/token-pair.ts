@@ -0,0 +1,320 @@
+/**
+ * Token Pair Service
+ *
+ * Issues short-lived access tokens with rotating refresh tokens on top of
+ * JwtHelper, and revokes a whole token family when a refresh token is reused.
+ *
+ * Key Features:
+ * - Access + refresh token pairs; refresh tokens carry a `jti` and family id
+ * - Rotation: every refresh consumes the refresh token and issues a new pair
+ * - Reuse detection: a consumed refresh token revokes its whole family
+ * - Refresh tokens typed and scoped to their own audience: never valid as access tokens
+ * - Pluggable refresh token store; in-memory store included
+ * - Typed JwtError subclasses for reuse and revocation
+ */
+
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  JwtAlgorithm,
+  JwtError,
+  JwtHelper,
+  JwtKey,
+  JwtPayload,
+  JwtValidationError,
+} from './jwt.helper';
+
+export interface TokenPairOptions {
+  /** Key signing access tokens (HMAC secret or private key) */
+  accessKey: JwtKey;
+  /** Key signing refresh tokens (default: accessKey); a separate secret is recommended */
+  refreshKey?: JwtKey;
+  /** Default: HS256 */
+  algorithm?: JwtAlgorithm;
+  /** Default: algorithm */
+  refreshAlgorithm?: JwtAlgorithm;
+  /** Access token lifetime in seconds (default: 15 min) */
+  accessTokenTtl?: number;
+  /** Refresh token lifetime in seconds, renewed on every rotation (default: 30 days) */
+  refreshTokenTtl?: number;
+  issuer?: string;
+  /** Audience of access tokens */
+  audience?: string | string[];
+  /** Audience of refresh tokens, kept distinct from access tokens (default: token-pair:refresh) */
+  refreshAudience?: string;
+}
+
+export interface TokenPair {
+  readonly accessToken: string;
+  readonly refreshToken: string;
+  readonly tokenType: 'Bearer';
+  /** Access token lifetime in seconds */
+  readonly expiresIn: number;
+  readonly refreshExpiresIn: number;
+  readonly familyId: string;
+}
+
+/**
+ * Stored state of one issued refresh token
+ */
+export interface RefreshTokenRecord {
+  readonly jti: string;
+  readonly familyId: string;
+  readonly sub: string;
+  /** Claims copied into every access token of the family */
+  readonly claims: JwtPayload;
+  /** Unix timestamp (ms) */
+  readonly expiresAt: number;
+  readonly usedAt?: number;
+  /** jti of the refresh token that replaced this one */
+  readonly replacedBy?: string;
+}
+
+/**
+ * Refresh token storage; `markUsed` must be atomic (e.g. Redis SET NX or a
+ * conditional UPDATE) so two concurrent refreshes can't both succeed
+ */
+export interface RefreshTokenStore {
+  save(record: RefreshTokenRecord): void | Promise<void>;
+  get(jti: string): RefreshTokenRecord | undefined | Promise<RefreshTokenRecord | undefined>;
+  /** Mark a token consumed; returns false when it was already consumed */
+  markUsed(jti: string, replacedBy: string): boolean | Promise<boolean>;
+  /** Revoke every token of a family until `expiresAt` (ms) */
+  revokeFamily(familyId: string, expiresAt: number): void | Promise<void>;
+  isFamilyRevoked(familyId: string): boolean | Promise<boolean>;
+}
+
+/**
+ * Injection token for TokenPairService options
+ */
+export const TOKEN_PAIR_OPTIONS = 'tokenPair:options';
+
+/**
+ * Injection token for a custom refresh token store
+ */
+export const REFRESH_TOKEN_STORE = 'tokenPair:store';
+
+export class JwtRefreshTokenReusedError extends JwtError {
+  constructor() {
+    super('Refresh token was already used; its token family has been revoked', 'JWT_REFRESH_TOKEN_REUSED');
+    this.name = 'JwtRefreshTokenReusedError';
+  }
+}
+
+export class JwtRefreshTokenRevokedError extends JwtError {
+  constructor() {
+    super('Refresh token has been revoked', 'JWT_REFRESH_TOKEN_REVOKED');
+    this.name = 'JwtRefreshTokenRevokedError';
+  }
+}
+
+/**
+ * In-memory store, for single-instance deployments and tests
+ */
+export class InMemoryRefreshTokenStore implements RefreshTokenStore {
+  private readonly records = new Map<string, RefreshTokenRecord>();
+  private readonly revokedFamilies = new Map<string, number>();
+
+  constructor(private readonly maxRecords = 100000) {}
+
+  save(record: RefreshTokenRecord): void {
+    if (this.records.size >= this.maxRecords) {
+      this.prune(Date.now());
+    }
+    this.records.set(record.jti, record);
+  }
+
+  get(jti: string): RefreshTokenRecord | undefined {
+    const record = this.records.get(jti);
+    return record && record.expiresAt > Date.now() ? record : undefined;
+  }
+
+  markUsed(jti: string, replacedBy: string): boolean {
+    const record = this.records.get(jti);
+    if (!record || record.usedAt) return false;
+
+    this.records.set(jti, { ...record, usedAt: Date.now(), replacedBy });
+    return true;
+  }
+
+  revokeFamily(familyId: string, expiresAt: number): void {
+    this.revokedFamilies.set(familyId, Math.max(expiresAt, this.revokedFamilies.get(familyId) ?? 0));
+  }
+
+  isFamilyRevoked(familyId: string): boolean {
+    const expiresAt = this.revokedFamilies.get(familyId);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.revokedFamilies.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [jti, { expiresAt }] of this.records) {
+      if (expiresAt <= now) this.records.delete(jti);
+    }
+    for (const [familyId, expiresAt] of this.revokedFamilies) {
+      if (expiresAt <= now) this.revokedFamilies.delete(familyId);
+    }
+  }
+}
+
+/**
+ * Process-wide store, used when none is provided through DI
+ */
+export const refreshTokenStore = new InMemoryRefreshTokenStore();
+
+/**
+ * Access/refresh token pair service with refresh token rotation
+ *
+ * @example
+ * // In app.module.ts
+ * providers: [
+ *   { provide: TOKEN_PAIR_OPTIONS, useValue: { accessKey: privateKeyPem, algorithm: 'RS256', refreshKey: refreshSecret, refreshAlgorithm: 'HS256' } },
+ *   TokenPairService,
+ * ]
+ *
+ * @example
+ * // Login, refresh and logout
+ * const pair = await tokenPairs.issue({ sub: user.id, roles: user.roles, tid: user.tenantId });
+ * const next = await tokenPairs.refresh(pair.refreshToken); // pair.refreshToken is now consumed
+ * await tokenPairs.revoke(next.refreshToken);
+ */
+@Injectable()
+export class TokenPairService {
+  private readonly algorithm: JwtAlgorithm;
+  private readonly refreshAlgorithm: JwtAlgorithm;
+  private readonly refreshKey: JwtKey;
+  private readonly accessTokenTtl: number;
+  private readonly refreshTokenTtl: number;
+  private readonly refreshAudience: string;
+
+  constructor(
+    @Inject(TOKEN_PAIR_OPTIONS) private readonly options: TokenPairOptions,
+    @Optional() @Inject(REFRESH_TOKEN_STORE) private readonly store: RefreshTokenStore = refreshTokenStore,
+    @Optional() private readonly jwtHelper: JwtHelper = new JwtHelper(),
+  ) {
+    this.algorithm = options.algorithm ?? 'HS256';
+    this.refreshAlgorithm = options.refreshAlgorithm ?? this.algorithm;
+    this.refreshKey = options.refreshKey ?? options.accessKey;
+    this.accessTokenTtl = options.accessTokenTtl ?? 15 * 60;
+    this.refreshTokenTtl = options.refreshTokenTtl ?? 30 * 24 * 60 * 60;
+    this.refreshAudience = options.refreshAudience ?? 'token-pair:refresh';
+
+    if ([options.audience].flat().includes(this.refreshAudience)) {
+      throw new Error('refreshAudience must differ from the access token audience');
+    }
+  }
+
+  /**
+   * Issue a pair starting a new token family, e.g. after login
+   */
+  async issue(claims: JwtPayload & { sub: string }): Promise<TokenPair> {
+    return this.issueInFamily(randomUUID(), claims);
+  }
+
+  /**
+   * Consume a refresh token and issue the next pair of its family
+   * A refresh token presented twice revokes the family: both the attacker and
+   * the legitimate client must log in again
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const { jti, fam } = this.verifyRefreshToken(refreshToken);
+
+    if (await this.store.isFamilyRevoked(fam)) {
+      throw new JwtRefreshTokenRevokedError();
+    }
+
+    const record = await this.store.get(jti);
+    if (!record || record.familyId !== fam) {
+      throw new JwtRefreshTokenRevokedError();
+    }
+
+    const nextJti = randomUUID();
+    if (!(await this.store.markUsed(jti, nextJti))) {
+      await this.revokeFamily(fam);
+      throw new JwtRefreshTokenReusedError();
+    }
+
+    return this.issueInFamily(fam, { ...record.claims, sub: record.sub }, nextJti);
+  }
+
+  /**
+   * Revoke the family of a refresh token, e.g. on logout
+   */
+  async revoke(refreshToken: string): Promise<void> {
+    await this.revokeFamily(this.verifyRefreshToken(refreshToken).fam);
+  }
+
+  /**
+   * Revoke every refresh token of a family
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    // No token of the family outlives a freshly rotated one
+    await this.store.revokeFamily(familyId, Date.now() + this.refreshTokenTtl * 1000);
+  }
+
+  private async issueInFamily(
+    familyId: string,
+    claims: JwtPayload & { sub: string },
+    jti: string = randomUUID(),
+  ): Promise<TokenPair> {
+    // Claims set here would clash with the ones JwtHelper generates
+    const { exp, iat, nbf, jti: _jti, iss, aud, typ, ...custom } = claims;
+    const { issuer, audience } = this.options;
+
+    const accessToken = this.jwtHelper.generate({ ...custom, typ: 'access' }, this.options.accessKey, {
+      algorithm: this.algorithm,
+      expiresIn: this.accessTokenTtl,
+      jwtid: randomUUID(),
+      issuer,
+      audience,
+    });
+
+    const refreshToken = this.jwtHelper.generate(
+      { sub: custom.sub, fam: familyId, typ: 'refresh' },
+      this.refreshKey,
+      {
+        algorithm: this.refreshAlgorithm,
+        expiresIn: this.refreshTokenTtl,
+        jwtid: jti,
+        issuer,
+        audience: this.refreshAudience,
+      },
+    );
+
+    await this.store.save({
+      jti,
+      familyId,
+      sub: custom.sub,
+      claims: custom,
+      expiresAt: Date.now() + this.refreshTokenTtl * 1000,
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: this.accessTokenTtl,
+      refreshExpiresIn: this.refreshTokenTtl,
+      familyId,
+    };
+  }
+
+  private verifyRefreshToken(refreshToken: string): { jti: string; fam: string } {
+    const payload = this.jwtHelper.verify(refreshToken, this.refreshKey, {
+      algorithms: [this.refreshAlgorithm],
+      issuer: this.options.issuer,
+      audience: this.refreshAudience,
+      tokenUse: 'refresh',
+    });
+
+    if (!payload.jti || typeof payload.fam !== 'string') {
+      throw new JwtValidationError('not a refresh token');
+    }
+
+    return { jti: payload.jti, fam: payload.fam };
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Token Revocation List
+ *
+ * Rejects issued JWTs before they expire, e.g. after logout, a password
+ * change or a tenant suspension. Checked by JwtHelper.verify().
+ *
+ * Key Features:
+ * - Revocation by `jti`, by `sub` (tokens issued before a timestamp) or by tenant (`tid`)
+ * - Entries expire when the tokens they cover would have expired anyway
+ * - Synchronous check against a local index, so verify() stays synchronous
+ * - Pluggable store for shared (Redis-like) backends, synced in the background
+ */
+
+import { Inject, Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { JwtPayload } from './jwt.helper';
+
+export type RevocationKind = 'jti' | 'sub' | 'tid';
+
+export interface RevocationEntry {
+  readonly kind: RevocationKind;
+  readonly value: string;
+  /** sub/tid: tokens issued at or before this time (Unix seconds, like `iat`) are revoked */
+  readonly revokedBefore?: number;
+  /** When the entry can be dropped (ms) */
+  readonly expiresAt: number;
+}
+
+/**
+ * Shared revocation storage, e.g. a Redis hash with per-entry expiry
+ */
+export interface RevocationStore {
+  add(entry: RevocationEntry): void | Promise<void>;
+  /** Every unexpired entry */
+  list(): RevocationEntry[] | Promise<RevocationEntry[]>;
+}
+
+export interface TokenRevocationOptions {
+  /** Longest lifetime of any verified token in seconds; bounds sub/tid entries (default: 30 days) */
+  maxTokenLifetime?: number;
+  /** How often the local index is reloaded from the store (default: 30 s) */
+  syncIntervalMs?: number;
+}
+
+/**
+ * Injection token for the revocation store
+ */
+export const REVOCATION_STORE = 'jwt:revocationStore';
+
+/**
+ * Injection token for TokenRevocationList options
+ */
+export const TOKEN_REVOCATION_OPTIONS = 'jwt:revocationOptions';
+
+const entryKey = ({ kind, value }: Pick<RevocationEntry, 'kind' | 'value'>) => `${kind}:${value}`;
+
+// Keep the broader of two entries for the same key
+function mergeEntries(current: RevocationEntry | undefined, next: RevocationEntry): RevocationEntry {
+  if (!current) return next;
+
+  return {
+    ...next,
+    revokedBefore:
+      next.revokedBefore === undefined
+        ? current.revokedBefore
+        : Math.max(next.revokedBefore, current.revokedBefore ?? 0),
+    expiresAt: Math.max(current.expiresAt, next.expiresAt),
+  };
+}
+
+/**
+ * In-memory store, for single-instance deployments and tests
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private readonly entries = new Map<string, RevocationEntry>();
+
+  add(entry: RevocationEntry): void {
+    const key = entryKey(entry);
+    this.entries.set(key, mergeEntries(this.entries.get(key), entry));
+  }
+
+  list(): RevocationEntry[] {
+    const now = Date.now();
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(key);
+    }
+    return [...this.entries.values()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Revocation list checked by JwtHelper
+ * Revocations made on other instances become visible after the sync interval
+ *
+ * @example
+ * // In app.module.ts: JwtHelper picks the list up through DI
+ * providers: [
+ *   { provide: REVOCATION_STORE, useClass: RedisRevocationStore },
+ *   TokenRevocationList,
+ *   JwtHelper,
+ * ]
+ *
+ * @example
+ * await revocations.revokeToken(payload);           // logout
+ * await revocations.revokeSubject(user.id);         // password change
+ * await revocations.revokeTenant(tenant.id);        // tenant suspended
+ * jwtHelper.verify(token, secret);                  // throws JwtRevokedError
+ */
+@Injectable()
+export class TokenRevocationList implements OnModuleInit {
+  private readonly logger = new Logger(TokenRevocationList.name);
+  private readonly maxTokenLifetimeMs: number;
+  private readonly syncIntervalMs: number;
+
+  private entries = new Map<string, RevocationEntry>();
+  private syncedAt = 0;
+  private pending?: Promise<void>;
+
+  constructor(
+    @Optional() @Inject(REVOCATION_STORE) private readonly store: RevocationStore = new InMemoryRevocationStore(),
+    @Optional() @Inject(TOKEN_REVOCATION_OPTIONS) options: TokenRevocationOptions = {},
+  ) {
+    this.maxTokenLifetimeMs = (options.maxTokenLifetime ?? 30 * 24 * 60 * 60) * 1000;
+    this.syncIntervalMs = options.syncIntervalMs ?? 30 * 1000;
+  }
+
+  // Load the shared entries before the first request is verified
+  async onModuleInit(): Promise<void> {
+    await this.sync();
+  }
+
+  /**
+   * Revoke a single token by its `jti`, until its own expiry
+   */
+  async revokeToken(payload: Pick<JwtPayload, 'jti' | 'exp'>): Promise<void> {
+    if (!payload.jti) {
+      throw new Error('Only tokens with a jti claim can be revoked individually');
+    }
+
+    await this.add({
+      kind: 'jti',
+      value: payload.jti,
+      expiresAt: payload.exp ? payload.exp * 1000 : Date.now() + this.maxTokenLifetimeMs,
+    });
+  }
+
+  /**
+   * Revoke every token of a subject issued before `before` (default: now)
+   * Tokens issued later in the same second are revoked as well
+   */
+  async revokeSubject(sub: string, before: Date = new Date()): Promise<void> {
+    await this.add(this.issuedBefore('sub', sub, before));
+  }
+
+  /**
+   * Revoke every token of a tenant issued before `before` (default: now)
+   * Tokens issued later in the same second are revoked as well
+   */
+  async revokeTenant(tid: string, before: Date = new Date()): Promise<void> {
+    await this.add(this.issuedBefore('tid', tid, before));
+  }
+
+  /**
+   * Check a verified payload against the local index
+   */
+  isRevoked(payload: JwtPayload): boolean {
+    this.syncIfStale();
+
+    if (payload.jti && this.active(this.entries.get(entryKey({ kind: 'jti', value: payload.jti })))) {
+      return true;
+    }
+
+    // iat has second precision: a token issued in the same second as the
+    // revocation can't be told apart from an older one, so it is revoked too
+    const issuedAt = payload.iat ?? 0;
+
+    return (['sub', 'tid'] as const).some((kind) => {
+      const value = payload[kind];
+      const entry = value ? this.active(this.entries.get(entryKey({ kind, value }))) : undefined;
+      return entry !== undefined && issuedAt <= (entry.revokedBefore ?? 0);
+    });
+  }
+
+  /**
+   * Reload the local index from the store
+   */
+  sync(): Promise<void> {
+    this.pending ??= (async () => {
+      try {
+        const entries = new Map<string, RevocationEntry>();
+        for (const entry of await this.store.list()) {
+          entries.set(entryKey(entry), mergeEntries(entries.get(entryKey(entry)), entry));
+        }
+        // Keep local additions the store didn't return yet, drop expired ones
+        for (const [key, entry] of this.entries) {
+          if (this.active(entry)) entries.set(key, mergeEntries(entries.get(key), entry));
+        }
+        this.entries = entries;
+      } finally {
+        this.syncedAt = Date.now();
+        this.pending = undefined;
+      }
+    })();
+
+    return this.pending;
+  }
+
+  private async add(entry: RevocationEntry): Promise<void> {
+    const key = entryKey(entry);
+    this.entries.set(key, mergeEntries(this.entries.get(key), entry));
+    await this.store.add(entry);
+  }
+
+  private issuedBefore(kind: RevocationKind, value: string, before: Date): RevocationEntry {
+    return {
+      kind,
+      value,
+      revokedBefore: Math.floor(before.getTime() / 1000),
+      // Tokens issued before `before` are expired by then
+      expiresAt: before.getTime() + this.maxTokenLifetimeMs,
+    };
+  }
+
+  private active(entry: RevocationEntry | undefined): RevocationEntry | undefined {
+    return entry && entry.expiresAt > Date.now() ? entry : undefined;
+  }
+
+  // Verification never waits for the store; a failed sync keeps the current index
+  private syncIfStale(): void {
+    if (this.pending || Date.now() - this.syncedAt < this.syncIntervalMs) return;
+
+    this.sync().catch((err: Error) => this.logger.warn(`Revocation list sync failed: ${err.message}`));
+  }
+}
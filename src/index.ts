@@ -5,7 +5,41 @@
  */
 
 // Error Handling
-export { AppError, ErrorData, createErrorClass } from './error-handling/app-error';
+export {
+  AppError,
+  AggregateAppError,
+  ErrorData,
+  ErrorClassification,
+  ErrorSeverity,
+  severityForStatus,
+  SerializedAppError,
+  AppErrorSerializeOptions,
+  createErrorClass,
+  formatErrorMessage,
+  getCauseChain,
+} from './error-handling/app-error';
+export {
+  ErrorRegistry,
+  ErrorDefinition,
+  ErrorDescriptor,
+  RegisteredErrorClass,
+  DuplicateErrorCodeError,
+  errorRegistry,
+} from './error-handling/error-registry';
+export {
+  ErrorMessageCatalog,
+  LocaleMessages,
+  DEFAULT_LOCALE,
+  errorMessages,
+} from './error-handling/error-messages';
+export {
+  ErrorMapperRegistry,
+  ErrorMapperContext,
+  ErrorMapFn,
+  InvalidTokenError,
+  InputValidationError,
+  errorMappers,
+} from './error-handling/error-mappers';
 
 // Decorators
 export { ValidateInput, ValidationFailedError } from './decorators/validate-input';
@@ -13,7 +47,12 @@ export {
   Auth,
   AuthScopes,
   AuthScope,
+  AuthRequirement,
+  AuthOptions,
+  AUTH_SECURITY_SCHEMES,
+  addAuthSecuritySchemes,
   SCOPES_KEY,
+  Policy,
   Public,
   IS_PUBLIC_KEY,
   TestOnly,
@@ -28,6 +67,7 @@ export {
   IsAfterConstraint,
   RequireOneOf,
   RequireOneOfConstraint,
+  ValidationMessageContext,
 } from './decorators/custom-validators.decorator';
 export {
   TransformToBoolean,
@@ -50,6 +90,8 @@ export {
   GetTenantId,
   GetTraceId,
   GetClientIp,
+  resolveTenantId,
+  resolveClientIp,
   GetUserAgent,
   GetHeader,
   GetBearerToken,
@@ -59,7 +101,28 @@ export {
 } from './decorators/param.decorator';
 
 // Filters
-export { GlobalExceptionFilter } from './filters/global-exception.filter';
+export { GlobalExceptionFilter, requestIdFromErrorTraceId } from './filters/global-exception.filter';
+export {
+  ErrorResponseFormatter,
+  ErrorResponseContext,
+  FormattedErrorResponse,
+  ErrorResponse,
+  ProblemDetails,
+  PROBLEM_JSON_CONTENT_TYPE,
+  defaultErrorFormatter,
+  problemJsonFormatter,
+  createProblemJsonFormatter,
+} from './filters/error-response.formatter';
+export {
+  ErrorAggregationService,
+  ErrorAggregationConfig,
+  ErrorFingerprintStore,
+  ErrorFingerprintKey,
+  ErrorFingerprintStats,
+  ErrorOccurrence,
+  ErrorLogDecision,
+  InMemoryErrorFingerprintStore,
+} from './filters/error-aggregation.service';
 
 // Guards
 export {
@@ -68,11 +131,70 @@ export {
   Environment,
   AllowedIn,
   BlockedIn,
+  // Same decorator as TestOnly, kept for compatibility
   TestOnly as TestOnlyGuard,
+  isProductionEnvironment,
+  assertTestOnlyRoutesUnreachable,
+  TestOnlyRoutesExposedError,
   NonProduction,
   ALLOWED_ENVIRONMENTS_KEY,
   BLOCKED_ENVIRONMENTS_KEY,
+  ENVIRONMENT_GUARD_CONFIG,
 } from './guards/environment.guard';
+export {
+  ScopesGuard,
+  ScopesMode,
+  SCOPES_MODE_KEY,
+  hasRequiredScopes,
+} from './guards/scopes.guard';
+export { JwtAuthGuard } from './guards/jwt-auth.guard';
+export {
+  StrategyAuthGuard,
+  AuthStrategy,
+  AuthStrategyConfig,
+  AUTH_STRATEGIES_KEY,
+  DEFAULT_AUTH_STRATEGIES,
+} from './guards/strategy-auth.guard';
+export {
+  TenantGuard,
+  TenantScoped,
+  TenantSource,
+  TenantGuardOptions,
+  TenantScopedOptions,
+  CrossTenantAccessEvent,
+  TenantRequiredError,
+  TenantMismatchError,
+  TenantNotFoundError,
+  TENANT_OPTIONS,
+  TENANT_SCOPED_KEY,
+} from './guards/tenant.guard';
+export {
+  RateLimit,
+  RateLimitGuard,
+  RateLimitOptions,
+  RateLimitKey,
+  RateLimitAlgorithm,
+  RateLimitStore,
+  InMemoryRateLimitStore,
+  RateLimitExceededError,
+  RATE_LIMIT_KEY,
+  RATE_LIMIT_STORE,
+  rateLimitStore,
+} from './guards/rate-limit.guard';
+export {
+  PolicyGuard,
+  PolicyContext,
+  PolicyDecision,
+  PolicyDefinition,
+  PolicyFn,
+  ResourceLoader,
+  PolicyDeniedError,
+  POLICIES_KEY,
+  allow,
+  deny,
+  definePolicy,
+  evaluatePolicy,
+} from './guards/policy.guard';
 
 // Interceptors
 export {
@@ -80,11 +202,54 @@ export {
   TraceData,
   ClientPlatform,
   getTraceData,
+  ensureTraceData,
 } from './interceptors/trace-context.interceptor';
+export {
+  Idempotent,
+  IdempotencyInterceptor,
+  IdempotencyOptions,
+  IdempotencyStore,
+  IdempotencyRecord,
+  IdempotentResponse,
+  InMemoryIdempotencyStore,
+  IdempotencyKeyRequiredError,
+  IdempotencyKeyInvalidError,
+  IdempotencyKeyInUseError,
+  IdempotencyKeyMismatchError,
+  IDEMPOTENT_KEY,
+  IDEMPOTENCY_STORE,
+  IDEMPOTENCY_KEY_HEADER,
+  idempotencyStore,
+} from './interceptors/idempotency.interceptor';
+
+// Audit
+export {
+  AuthorizationAuditor,
+  AuthorizationAuditEvent,
+  AuthorizationAuditInput,
+  AuthorizationDecision,
+  AuditSink,
+  LoggerAuditSink,
+  FileAuditSink,
+  InMemoryAuditSink,
+  AUDIT_SINKS,
+  authorizationAudit,
+} from './audit/authorization-audit';
+export {
+  buildRouteManifest,
+  routeManifestToMarkdown,
+  assertNoUnprotectedRoutes,
+  RouteManifest,
+  RouteManifestEntry,
+  RouteManifestOptions,
+  RouteAuthRequirement,
+  UnprotectedRoutesError,
+} from './audit/route-manifest';
 
 // Context
 export {
   RequestContextService,
+  resolveRequestLocale,
   UserContext,
   TenantContext,
   TraceContext,
@@ -118,6 +283,7 @@ export {
   UtilsHelper,
   isObject,
   isString,
+  deepEqual,
   randomNumber,
   randomString,
   generateTrackingId,
@@ -129,15 +295,68 @@ export {
   JwtHelper,
   JwtPayload,
   JwtAlgorithm,
+  JwtKey,
   JwtGenerateOptions,
   JwtVerifyOptions,
+  JwtClaimMatchers,
+  ClaimPredicate,
+  ClaimMatch,
   JwtError,
   JwtExpiredError,
   JwtMalformedError,
   JwtInvalidAlgorithmError,
   JwtInvalidSignatureError,
   JwtValidationError,
+  JwtInvalidKeyError,
+  JwtRevokedError,
+  JwtUnknownKeyError,
+  toJwtKeyObject,
 } from './helpers/jwt.helper';
+export {
+  JwksResolver,
+  JwksResolverOptions,
+  JwksProvider,
+  StaticJwksProvider,
+  FileJwksProvider,
+  HttpJwksProvider,
+  JsonWebKeySet,
+  Jwk,
+  JWKS_PROVIDER,
+  jwkToKeyObject,
+} from './helpers/jwks';
+export {
+  TokenPairService,
+  TokenPairOptions,
+  TokenPair,
+  RefreshTokenRecord,
+  RefreshTokenStore,
+  InMemoryRefreshTokenStore,
+  refreshTokenStore,
+  TOKEN_PAIR_OPTIONS,
+  REFRESH_TOKEN_STORE,
+  JwtRefreshTokenReusedError,
+  JwtRefreshTokenRevokedError,
+} from './helpers/token-pair';
+export {
+  TokenRevocationList,
+  TokenRevocationOptions,
+  RevocationEntry,
+  RevocationKind,
+  RevocationStore,
+  InMemoryRevocationStore,
+  REVOCATION_STORE,
+  TOKEN_REVOCATION_OPTIONS,
+} from './helpers/token-revocation';
+export {
+  ScopeResolver,
+  ScopeHierarchy,
+  Permission,
+  SCOPE_HIERARCHY,
+  DEFAULT_SCOPE_HIERARCHY,
+  defineScopeHierarchy,
+  scopeResolver,
+  getGrantedScopes,
+} from './helpers/scope-resolver';
 export {
   defer,
   deferWithTimeout,
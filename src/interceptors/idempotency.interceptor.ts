@@ -0,0 +1,299 @@
+/**
+ * Idempotency Interceptor
+ *
+ * Makes retried mutating requests safe: the first response for an
+ * Idempotency-Key is stored and replayed for later requests with that key.
+ *
+ * Key Features:
+ * - @Idempotent() decorator on handlers or controllers
+ * - Keys scoped to the authenticated user and tenant
+ * - Concurrent request with an in-flight key gets 409, until a short lock expires
+ * - Reusing a key with a different request body gets 422
+ * - Pluggable store; in-memory store included
+ * - Store writes awaited before the response is sent
+ */
+
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  Optional,
+  SetMetadata,
+  UseInterceptors,
+} from '@nestjs/common';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { ApiConflictResponse, ApiHeader } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, concatMap, switchMap } from 'rxjs/operators';
+import { createErrorClass } from '../error-handling/app-error';
+import { resolveTenantId } from '../decorators/param.decorator';
+
+export interface IdempotencyOptions {
+  /** Reject requests without the header (default: false, request runs normally) */
+  required?: boolean;
+  /** How long responses are kept (default: 24h) */
+  ttlMs?: number;
+  /** How long an in-flight key stays locked, so a crashed request can't block it for the whole ttlMs (default: 1 min) */
+  lockTtlMs?: number;
+}
+
+/**
+ * Stored response of a completed request
+ */
+export interface IdempotentResponse {
+  readonly statusCode: number;
+  readonly body: unknown;
+}
+
+export interface IdempotencyRecord {
+  readonly state: 'in-progress' | 'completed';
+  /** Hash of method, path and body of the first request */
+  readonly fingerprint: string;
+  readonly response?: IdempotentResponse;
+}
+
+/**
+ * Response storage; `begin` must be atomic (e.g. Redis SET NX) so concurrent
+ * requests can't both acquire a key
+ */
+export interface IdempotencyStore {
+  /**
+   * Create an in-progress record expiring after `lockTtlMs`; returns the
+   * existing record when the key is taken
+   */
+  begin(
+    key: string,
+    fingerprint: string,
+    lockTtlMs: number,
+  ): IdempotencyRecord | undefined | Promise<IdempotencyRecord | undefined>;
+  complete(key: string, response: IdempotentResponse, ttlMs: number): void | Promise<void>;
+  /** Drop an in-progress record after a failure, so the client can retry */
+  release(key: string): void | Promise<void>;
+}
+
+/**
+ * Metadata key for storing idempotency options
+ */
+export const IDEMPOTENT_KEY = 'idempotency:options';
+
+/**
+ * Injection token for a custom store
+ */
+export const IDEMPOTENCY_STORE = 'idempotency:store';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+export const IdempotencyKeyRequiredError = createErrorClass('IdempotencyKeyRequired', {
+  code: 'IDEMPOTENCY_KEY_REQUIRED',
+  status: 400,
+  message: 'The Idempotency-Key header is required',
+});
+
+export const IdempotencyKeyInvalidError = createErrorClass('IdempotencyKeyInvalid', {
+  code: 'IDEMPOTENCY_KEY_INVALID',
+  status: 400,
+  message: 'The Idempotency-Key header must be 1 to 255 characters',
+});
+
+export const IdempotencyKeyInUseError = createErrorClass('IdempotencyKeyInUse', {
+  code: 'IDEMPOTENCY_KEY_IN_USE',
+  status: 409,
+  message: 'A request with this Idempotency-Key is still being processed',
+  retryable: true,
+  retryAfter: 1,
+});
+
+export const IdempotencyKeyMismatchError = createErrorClass('IdempotencyKeyMismatch', {
+  code: 'IDEMPOTENCY_KEY_MISMATCH',
+  status: 422,
+  message: 'This Idempotency-Key was already used with a different request',
+});
+
+/**
+ * In-memory store, for single-instance deployments and tests
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord & { expiresAt: number }>();
+
+  begin(key: string, fingerprint: string, lockTtlMs: number): IdempotencyRecord | undefined {
+    const now = Date.now();
+    const existing = this.records.get(key);
+
+    if (existing && existing.expiresAt > now) {
+      return existing;
+    }
+
+    this.records.set(key, { state: 'in-progress', fingerprint, expiresAt: now + lockTtlMs });
+    return undefined;
+  }
+
+  complete(key: string, response: IdempotentResponse, ttlMs: number): void {
+    const existing = this.records.get(key);
+    if (!existing) return;
+
+    this.records.set(key, {
+      state: 'completed',
+      fingerprint: existing.fingerprint,
+      response,
+      expiresAt: Date.now() + ttlMs,
+    });
+  }
+
+  release(key: string): void {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Process-wide store, used when none is provided through DI
+ */
+export const idempotencyStore = new InMemoryIdempotencyStore();
+
+/**
+ * Idempotency decorator for mutating endpoints
+ *
+ * @example
+ * @Idempotent()
+ * @Auth(AuthScopes.user)
+ * @Post('orders')
+ * createOrder(@Body() dto: CreateOrderDto) { ... }
+ *
+ * // Client
+ * POST /orders
+ * Idempotency-Key: 5f0c1c1e-8a4e-4c5b-9a57-1d0f6a1b2c3d
+ */
+export function Idempotent(options: IdempotencyOptions = {}) {
+  return applyDecorators(
+    SetMetadata(IDEMPOTENT_KEY, options),
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: options.required ?? false,
+      description: 'Unique key; retries with the same key replay the first response',
+    }),
+    ApiConflictResponse({ description: 'Conflict - Request with this key in progress' }),
+  );
+}
+
+interface IdempotentRequest extends Request {
+  context?: { user?: { id?: string } };
+  user?: { id?: string; sub?: string };
+}
+
+/**
+ * Idempotency interceptor, applied by @Idempotent()
+ * Failed requests release their key so the client can retry them; a
+ * successful one keeps it even when storing its response fails
+ *
+ * @example
+ * // Shared store across instances, in app.module.ts
+ * providers: [{ provide: IDEMPOTENCY_STORE, useClass: RedisIdempotencyStore }]
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional() @Inject(IDEMPOTENCY_STORE) private readonly store: IdempotencyStore = idempotencyStore,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const options = this.reflector.getAllAndOverride<IdempotencyOptions>(IDEMPOTENT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!options) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<IdempotentRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const header = request.headers[IDEMPOTENCY_KEY_HEADER];
+    const idempotencyKey = Array.isArray(header) ? header[0] : header;
+
+    if (idempotencyKey === undefined) {
+      if (options.required) throw new IdempotencyKeyRequiredError();
+      return next.handle();
+    }
+
+    if (!idempotencyKey || idempotencyKey.length > 255) {
+      throw new IdempotencyKeyInvalidError();
+    }
+
+    const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+    const lockTtlMs = options.lockTtlMs ?? 60 * 1000;
+    const key = this.scopedKey(request, idempotencyKey);
+    const fingerprint = createHash('sha256')
+      .update(`${request.method} ${request.path}\n${JSON.stringify(request.body ?? null)}`)
+      .digest('hex');
+
+    return from(Promise.resolve(this.store.begin(key, fingerprint, lockTtlMs))).pipe(
+      switchMap((existing) => {
+        if (existing && existing.fingerprint !== fingerprint) {
+          throw new IdempotencyKeyMismatchError();
+        }
+
+        if (existing?.state === 'in-progress') {
+          throw new IdempotencyKeyInUseError();
+        }
+
+        if (existing?.response) {
+          response.status(existing.response.statusCode);
+          response.setHeader('Idempotent-Replayed', 'true');
+          return of(existing.response.body);
+        }
+
+        // Nest applies @HttpCode() (or 201 for POST) only when replying, after this tap
+        const statusCode =
+          this.reflector.get<number | undefined>(HTTP_CODE_METADATA, context.getHandler()) ??
+          (request.method === 'POST' ? 201 : 200);
+
+        // Stored before the response goes out, so a fast retry replays instead of hitting 409.
+        // Only the handler's own errors release the key: after a success, a retry must
+        // not run the side effect again
+        return next.handle().pipe(
+          catchError((err: unknown) => from(this.release(key)).pipe(concatMap(() => throwError(() => err)))),
+          concatMap(async (body) => {
+            await this.complete(key, { statusCode, body }, ttlMs);
+            return body;
+          }),
+        );
+      }),
+    );
+  }
+
+  // The handler already succeeded: the response is sent anyway, and retries get
+  // 409 until the lock expires
+  private async complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    try {
+      await this.store.complete(key, response, ttlMs);
+    } catch (err) {
+      this.logger.warn(`Failed to store idempotent response: ${(err as Error).message}`);
+    }
+  }
+
+  // The request's own error wins over a failing store; the record then expires with its lock
+  private async release(key: string): Promise<void> {
+    try {
+      await this.store.release(key);
+    } catch (err) {
+      this.logger.warn(`Failed to release idempotency key: ${(err as Error).message}`);
+    }
+  }
+
+  // Keys are only unique per user and tenant
+  private scopedKey(request: IdempotentRequest, idempotencyKey: string): string {
+    const user = request.context?.user ?? request.user;
+    const userId = user?.id ?? request.user?.sub ?? 'anonymous';
+    return `${resolveTenantId(request) ?? '-'}:${userId}:${idempotencyKey}`;
+  }
+}
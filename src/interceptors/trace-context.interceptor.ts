@@ -10,6 +10,7 @@
  * - Extracts client platform information from headers
  * - Filters sensitive headers from logging
  * - Measures request timing
+ * - Populates RequestContextService trace context
  */
 
 import {
@@ -23,6 +24,7 @@ import { Request, Response } from 'express';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { randomBytes } from 'crypto';
+import { TraceContext } from '../context/request-context.service';
 
 /**
  * Client platform detection
@@ -151,27 +153,7 @@ export class TraceContextInterceptor implements NestInterceptor {
     const request = context.switchToHttp().getRequest<Request>();
     const response = context.switchToHttp().getResponse<Response>();
 
-    const startTime = Date.now();
-    const requestId = generateTraceId('req');
-    const clientTraceId = request.headers['x-client-trace-id'] as string | undefined;
-
-    // Build trace data
-    const traceData: TraceData = {
-      requestId,
-      clientTraceId,
-      platform: detectPlatform(request.headers),
-      method: request.method,
-      path: request.path,
-      fullUrl: `${request.protocol}://${request.hostname}${request.originalUrl}`,
-      startTime,
-      headers: filterHeaders(request.headers),
-      userAgent: request.headers['user-agent'] as string,
-      clientIp: getClientIp(request),
-      appVersion: (request.headers['x-app-version'] ?? request.headers['x-appversion']) as string,
-    };
-
-    // Attach to request for downstream access
-    (request as any).traceData = traceData;
+    const { requestId, clientTraceId, startTime } = ensureTraceData(request);
 
     // Set response headers for client correlation
     response.setHeader('X-Request-Id', requestId);
@@ -194,6 +176,52 @@ export class TraceContextInterceptor implements NestInterceptor {
   }
 }
 
+/**
+ * Build and attach trace data unless already present
+ * Guards run before interceptors; calling this from a guard (e.g. for audit
+ * events) yields the same request ID the interceptor later reports
+ */
+export function ensureTraceData(request: Request): TraceData {
+  const existing = getTraceData(request);
+  if (existing) return existing;
+
+  const requestId = generateTraceId('req');
+  const clientTraceId = request.headers['x-client-trace-id'] as string | undefined;
+
+  // Build trace data
+  const traceData: TraceData = {
+    requestId,
+    clientTraceId,
+    platform: detectPlatform(request.headers),
+    method: request.method,
+    path: request.path,
+    fullUrl: `${request.protocol}://${request.hostname}${request.originalUrl}`,
+    startTime: Date.now(),
+    headers: filterHeaders(request.headers),
+    userAgent: request.headers['user-agent'] as string,
+    clientIp: getClientIp(request),
+    appVersion: (request.headers['x-app-version'] ?? request.headers['x-appversion']) as string,
+  };
+
+  // Attach to request for downstream access
+  (request as any).traceData = traceData;
+
+  // Share the same request ID with RequestContextService
+  const contextRequest = request as Request & { context?: { trace?: TraceContext } };
+  contextRequest.context ??= {};
+  contextRequest.context.trace = {
+    requestId,
+    clientTraceId,
+    startTime: traceData.startTime,
+    path: traceData.path,
+    method: traceData.method,
+    userAgent: traceData.userAgent,
+    clientIp: traceData.clientIp,
+  };
+
+  return traceData;
+}
+
 /**
  * Helper to extract trace data from request
  */
@@ -8,6 +8,7 @@
  * - Required parameter validation
  * - Type coercion pipes
  * - Custom error messages
+ * - Localizable error codes (see error-messages.ts)
  * - Composable validation
  */
 
@@ -19,6 +20,21 @@ import {
   ParseIntPipe,
   ParseUUIDPipe,
 } from '@nestjs/common';
+import { errorMessages } from '../error-handling/error-messages';
+
+/**
+ * Bad request carrying a catalog code and params, so GlobalExceptionFilter
+ * can render the message in the client's language
+ */
+function paramError(code: string, params: Record<string, unknown>): BadRequestException {
+  return new BadRequestException({
+    statusCode: 400,
+    message: errorMessages.translate(code, undefined, params),
+    error: 'Bad Request',
+    code,
+    params,
+  });
+}
 
 /**
  * Validates that a parameter is defined and not empty
@@ -37,7 +53,7 @@ export class DefinedParamPipe implements PipeTransform<unknown, unknown> {
     const name = this.paramName ?? metadata.data ?? 'parameter';
 
     if (value === undefined || value === null || value === '' || value === 'null') {
-      throw new BadRequestException(`${name} is required`);
+      throw paramError('PARAM_REQUIRED', { name });
     }
 
     return value;
@@ -123,7 +139,7 @@ export class ParseIntArrayPipe implements PipeTransform<string, number[]> {
     return parts.map((part) => {
       const num = parseInt(part, 10);
       if (isNaN(num)) {
-        throw new BadRequestException(`${name} must contain only integers`);
+        throw paramError('PARAM_INVALID_INTEGERS', { name });
       }
       return num;
     });
@@ -175,9 +191,9 @@ export class RegexValidationPipe implements PipeTransform<string, string> {
     const name = metadata.data ?? 'parameter';
 
     if (!this.pattern.test(value)) {
-      throw new BadRequestException(
-        this.errorMessage ?? `${name} format is invalid`,
-      );
+      throw this.errorMessage
+        ? new BadRequestException(this.errorMessage)
+        : paramError('PARAM_INVALID_FORMAT', { name });
     }
 
     return value;
@@ -204,9 +220,7 @@ export class EnumValidationPipe<T extends string> implements PipeTransform<strin
     const name = metadata.data ?? 'parameter';
 
     if (!this.allowedValues.includes(value as T)) {
-      throw new BadRequestException(
-        `${name} must be one of: ${this.allowedValues.join(', ')}`,
-      );
+      throw paramError('PARAM_NOT_ALLOWED', { name, allowed: this.allowedValues.join(', ') });
     }
 
     return value as T;
@@ -236,11 +250,11 @@ export class StringLengthPipe implements PipeTransform<string, string> {
     const { min, max } = this.options;
 
     if (min !== undefined && value.length < min) {
-      throw new BadRequestException(`${name} must be at least ${min} characters`);
+      throw paramError('PARAM_TOO_SHORT', { name, min });
     }
 
     if (max !== undefined && value.length > max) {
-      throw new BadRequestException(`${name} must be at most ${max} characters`);
+      throw paramError('PARAM_TOO_LONG', { name, max });
     }
 
     return value;
@@ -253,7 +267,7 @@ export class StringLengthPipe implements PipeTransform<string, string> {
 export function createParseIntPipe(paramName: string) {
   return new ParseIntPipe({
     errorHttpStatusCode: 400,
-    exceptionFactory: () => new BadRequestException(`${paramName} must be a valid integer`),
+    exceptionFactory: () => paramError('PARAM_INVALID_INTEGER', { name: paramName }),
   });
 }
 
@@ -263,6 +277,6 @@ export function createParseIntPipe(paramName: string) {
 export function createParseUUIDPipe(paramName: string) {
   return new ParseUUIDPipe({
     errorHttpStatusCode: 400,
-    exceptionFactory: () => new BadRequestException(`${paramName} must be a valid UUID`),
+    exceptionFactory: () => paramError('PARAM_INVALID_UUID', { name: paramName }),
   });
 }
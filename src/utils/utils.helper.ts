@@ -11,6 +11,7 @@
  * - Readable.from() instead of manual stream push
  * - Cryptographically secure randomness with crypto module
  * - PII masking for GDPR/security compliance
+ * - Structural equality for JSON values
  */
 
 import { randomBytes, randomInt, createHmac } from 'crypto';
@@ -26,6 +27,32 @@ export const isString = (value: unknown): value is string =>
   typeof value === 'string';
 
 // Pure utility functions - no need for class instance
+
+/**
+ * Structural equality for JSON values: arrays by position and length,
+ * objects by key set in any order, null and undefined distinct
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]))
+    );
+  }
+
+  if (!isObject(a) || !isObject(b)) return false;
+
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]))
+  );
+}
+
 export function randomNumber(min = 0, max = 4294967295): number {
   return randomInt(min, max);
 }